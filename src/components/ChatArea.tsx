@@ -1,24 +1,69 @@
 import { useState, useRef, useEffect } from 'react';
 import { useMessages } from '@/hooks/useMessages';
 import { useSessions } from '@/hooks/useSessions';
+import { useTaskRuns } from '@/hooks/useTaskRuns';
+import { useResearchBatches, type CreateBatchInput } from '@/hooks/useResearchBatches';
 import { useLog } from '@/contexts/LogContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { MessageCard } from '@/components/MessageCard';
-import { Send, Loader2, Bot, Search } from 'lucide-react';
+import { BriefReviewCard } from '@/components/research/BriefReviewCard';
+import { ClarificationCard } from '@/components/research/ClarificationCard';
+import { BatchResearchDialog } from '@/components/research/BatchResearchDialog';
+import { BatchProgressCard } from '@/components/research/BatchProgressCard';
+import { ModelSettingsDialog } from '@/components/ModelSettingsDialog';
+import {
+  mergeClarificationAnswers,
+  researchBriefSchema,
+  type ClarificationAnswer,
+  type ResearchBrief,
+  type SessionModelSettings,
+} from '@/lib/gemini';
+import { functionHeaders } from '@/lib/edge-functions';
+import { readChatStream, stopChatStream } from '@/lib/chat-stream';
+import { siblingsOf } from '@/lib/history';
+import { parseSlashCommand, type ChatIntent, type ComposerMode, type IntentResult } from '@/lib/intent';
+import { Send, Loader2, Bot, Search, Square, Sparkles, Layers } from 'lucide-react';
 
 interface ChatAreaProps {
   sessionId: string | null;
 }
 
 export function ChatArea({ sessionId }: ChatAreaProps) {
-  const { messages, loading: messagesLoading, addMessage } = useMessages(sessionId);
-  const { updateLastActivity } = useSessions();
+  const {
+    messages,
+    branchMessages,
+    selectBranch,
+    loading: messagesLoading,
+    addMessage,
+    updateMessage,
+    refreshMessages,
+  } = useMessages(sessionId);
+  const { sessions, updateLastActivity, updateModelSettings } = useSessions();
+  const { cancelRun } = useTaskRuns(sessionId);
+  const { batches, createBatch, cancelBatch, resumeBatch, downloadResults } = useResearchBatches(sessionId);
   const { addLog } = useLog();
   const [input, setInput] = useState('');
+  // 'auto' lets chat-intent decide; a /research or /chat prefix overrides it for one message
+  const [composerMode, setComposerMode] = useState<ComposerMode>('auto');
   const [sending, setSending] = useState(false);
   const [researching, setResearching] = useState(false);
+  const [pendingBrief, setPendingBrief] = useState<ResearchBrief | null>(null);
+  // A draft brief whose missing_information questions the user hasn't answered yet
+  const [clarifyingBrief, setClarifyingBrief] = useState<ResearchBrief | null>(null);
+  // Answers from every clarification round of the brief being drafted, re-sent with each re-plan
+  const [clarificationAnswers, setClarificationAnswers] = useState<ClarificationAnswer[]>([]);
+  const [launching, setLaunching] = useState(false);
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  // Brief the batch dialog starts from; null starts from a blank template
+  const [batchSeed, setBatchSeed] = useState<ResearchBrief | null>(null);
+  // Assistant reply that is still streaming in; chat-send saves it once the stream ends
+  const [streamingReply, setStreamingReply] = useState<{ content: string; replaceMessageId?: string } | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // chat-send's id for the reply being streamed, used to ask it to stop
+  const streamIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -28,7 +73,16 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, pendingBrief, clarifyingBrief, streamingReply]);
+
+  // A brief drafted for one session must never be launched into another. A reply still
+  // streaming is only disconnected when switching away: chat-send finishes and saves it
+  useEffect(() => {
+    setPendingBrief(null);
+    setClarifyingBrief(null);
+    setClarificationAnswers([]);
+    return () => streamAbortRef.current?.abort();
+  }, [sessionId]);
 
   // Auto-focus input after AI response
   useEffect(() => {
@@ -37,118 +91,385 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
     }
   }, [sending, researching]);
 
-  const isResearchQuery = (message: string): boolean => {
-    const researchKeywords = [
-      'research', 'analyze', 'investigate', 'study', 'explore', 'examine',
-      'find information', 'gather data', 'look into', 'comprehensive',
-      'detailed analysis', 'in-depth', 'thorough', 'compare', 'contrast'
-    ];
-    
-    const lowerMessage = message.toLowerCase();
-    return researchKeywords.some(keyword => lowerMessage.includes(keyword)) ||
-           message.length > 100; // Long queries likely need research
-  };
+  const resolveComposerInput = (text: string): { mode: ComposerMode; message: string } =>
+    parseSlashCommand(text) ?? { mode: composerMode, message: text };
+
+  const pendingMode = resolveComposerInput(input.trim()).mode;
 
   const handleSendMessage = async () => {
-    if (!input.trim() || !sessionId || sending || researching) return;
+    if (!input.trim() || !sessionId || sending || researching || launching) return;
 
-    const messageContent = input.trim();
+    const { mode, message: messageContent } = resolveComposerInput(input.trim());
+    if (!messageContent) return;
     setInput('');
-    
-    const shouldResearch = isResearchQuery(messageContent);
-    
-    if (shouldResearch) {
+
+    await runQuery(messageContent, sessionId, mode, true);
+  };
+
+  // Re-run the query behind a failed attempt; its user message is already saved
+  const handleRetry = async (messageId: string) => {
+    const failed = messages.find(message => message.id === messageId);
+    const query = failed?.metadata?.retry_query;
+    if (!query || !sessionId || sending || researching || launching) return;
+
+    await runQuery(query, sessionId, failed.metadata.retry_mode === 'research' ? 'research' : 'chat', false);
+  };
+
+  const runQuery = async (
+    messageContent: string,
+    sessionId: string,
+    mode: ComposerMode,
+    isNewMessage: boolean
+  ) => {
+    let intent: ChatIntent = mode === 'auto' ? 'chat' : mode;
+    if (mode === 'research') {
       setResearching(true);
     } else {
       setSending(true);
     }
 
     try {
-      // Add user message
-      await addMessage('user', messageContent);
+      if (isNewMessage) {
+        // Add user message
+        await addMessage('user', messageContent);
+      }
       
       // Update session activity
       await updateLastActivity(sessionId);
 
-      if (shouldResearch) {
+      if (mode === 'auto') {
+        intent = await classifyIntent(messageContent, sessionId);
+      }
+
+      if (intent === 'research') {
         // Trigger Parallel.ai research
+        setSending(false);
+        setResearching(true);
         await handleResearchQuery(messageContent, sessionId);
       } else {
-        // Regular chat with Gemini
-        await handleChatQuery(messageContent, sessionId);
+        // Regular chat with Gemini, or a clarifying question when the intent is unclear
+        await handleChatQuery(messageContent, sessionId, intent === 'clarify');
       }
 
     } catch (error) {
       console.error('Error sending message:', error);
       addLog('error', 'Error processing message', 'frontend', { 
         error: error.message,
-        messageType: shouldResearch ? 'research' : 'chat'
+        messageType: intent
       });
       await addMessage('system', `❌ **Error Processing Message**\n\nSorry, there was an error: ${error.message}\n\n*Click retry or try rephrasing your question.*`, {
         error: true,
-        retryable: true
+        retryable: true,
+        retry_query: messageContent,
+        retry_mode: intent === 'research' ? 'research' : 'chat'
+      });
+    } finally {
+      setSending(false);
+      setResearching(false);
+    }
+  };
+
+  // Falls back to chat if the classifier fails: a chat reply is cheap, a research run isn't
+  const classifyIntent = async (messageContent: string, sessionId: string): Promise<ChatIntent> => {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-intent`, {
+        method: 'POST',
+        headers: await functionHeaders(),
+        body: JSON.stringify({ sessionId, message: messageContent }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to classify message');
+      }
+
+      const { intent, confidence, reason } = result as IntentResult;
+      addLog('info', `Message classified as ${intent}`, 'api', { confidence, reason });
+      return intent;
+    } catch (error) {
+      addLog('warning', 'Intent classification failed, replying in chat', 'api', { error: error.message });
+      return 'chat';
+    }
+  };
+
+  const handleChatQuery = async (messageContent: string, sessionId: string, clarify = false) => {
+    await streamChatReply({ sessionId, message: messageContent, clarify });
+  };
+
+  const handleRegenerate = async (messageId: string) => {
+    if (!sessionId || sending || researching || launching) return;
+
+    setSending(true);
+    addLog('info', 'Regenerating assistant reply', 'api', { messageId });
+
+    try {
+      await streamChatReply({ sessionId, regenerateMessageId: messageId }, messageId);
+    } catch (error) {
+      console.error('Error regenerating reply:', error);
+      addLog('error', 'Error regenerating reply', 'frontend', { messageId, error: error.message });
+      await addMessage('system', `❌ **Error Regenerating Reply**\n\nSorry, there was an error: ${error.message}`, {
+        error: true
       });
     } finally {
       setSending(false);
+    }
+  };
+
+  const handleStopGeneration = () => {
+    if (!streamAbortRef.current) return;
+
+    // chat-send stops the model and saves the partial reply; it arrives through realtime
+    addLog('info', 'Stopping assistant reply', 'frontend');
+    if (streamIdRef.current) {
+      stopChatStream(streamIdRef.current).catch(error => {
+        addLog('error', 'Error stopping assistant reply', 'api', { error: error.message });
+      });
+    }
+    streamAbortRef.current.abort();
+  };
+
+  // Editing a user message adds a sibling after the same parent and re-runs it from there
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const original = messages.find(message => message.id === messageId);
+    const { mode, message: messageContent } = resolveComposerInput(content.trim());
+    if (!original || !messageContent || !sessionId || sending || researching || launching) return;
+
+    try {
+      await addMessage(
+        'user',
+        messageContent,
+        original.parent_message_id ? {} : { branch_root: true },
+        original.parent_message_id
+      );
+    } catch (error) {
+      addLog('error', 'Error editing message', 'frontend', { messageId, error: error.message });
+      return;
+    }
+
+    await runQuery(messageContent, sessionId, mode, false);
+  };
+
+  const handleSwitchBranch = async (messageId: string, index: number) => {
+    const message = messages.find(msg => msg.id === messageId);
+    const sibling = message && siblingsOf(messages, message)[index];
+    if (!sibling || sending || researching || launching) return;
+
+    try {
+      await selectBranch(sibling.id);
+    } catch (error) {
+      addLog('error', 'Error switching branch', 'frontend', { messageId, error: error.message });
+    }
+  };
+
+  const handleSelectVariant = async (messageId: string, index: number) => {
+    const message = messages.find(msg => msg.id === messageId);
+    const variants = message?.metadata?.variants;
+    if (!Array.isArray(variants) || !variants[index]) return;
+
+    const { content, created_at: _createdAt, ...variantMetadata } = variants[index];
+    try {
+      await updateMessage(messageId, content, { ...variantMetadata, variants, active_variant: index });
+    } catch (error) {
+      addLog('error', 'Error switching reply variant', 'frontend', { messageId, error: error.message });
+    }
+  };
+
+  const handleSaveModelSettings = async (settings: SessionModelSettings) => {
+    if (!sessionId) return;
+    try {
+      await updateModelSettings(sessionId, settings);
+      addLog('success', 'Model settings saved', 'frontend', { sessionId, model: settings.model });
+    } catch (error) {
+      addLog('error', 'Error saving model settings', 'frontend', { sessionId, error: error.message });
+      throw error;
+    }
+  };
+
+  // Streams a reply from chat-send, drawn at the bottom or in place of the message being regenerated
+  const streamChatReply = async (
+    request: { sessionId: string; message?: string; regenerateMessageId?: string; clarify?: boolean },
+    replaceMessageId?: string
+  ) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreamingReply({ content: '', replaceMessageId });
+
+    let content = '';
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-send`, {
+        method: 'POST',
+        headers: await functionHeaders(),
+        body: JSON.stringify({ ...request, stream: true }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to get AI response');
+      }
+
+      await readChatStream(response.body, event => {
+        if (event.type === 'start') {
+          streamIdRef.current = event.stream_id ?? null;
+        } else if (event.type === 'delta') {
+          content += event.text;
+          setStreamingReply({ content, replaceMessageId });
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      });
+
+      if (!content) {
+        throw new Error('AI returned no response. This could be due to API limits or content policy. Please try rephrasing your question.');
+      }
+
+      // chat-send has saved the reply; load it in case the realtime event hasn't arrived yet
+      await refreshMessages();
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      streamAbortRef.current = null;
+      streamIdRef.current = null;
+      setStreamingReply(null);
+    }
+  };
+
+  const handleResearchQuery = async (messageContent: string, sessionId: string) => {
+    addLog('info', 'Starting research query processing', 'frontend', { query: messageContent, sessionId });
+
+    setClarificationAnswers([]);
+    presentBrief(await requestBrief(sessionId));
+  };
+
+  // Underspecified briefs ask their follow-up questions before they can be reviewed
+  const presentBrief = (brief: ResearchBrief) => {
+    if (brief.missing_information?.length) {
+      addLog('info', 'Research brief needs clarification', 'frontend', {
+        questions: brief.missing_information.map(item => item.question)
+      });
+      setPendingBrief(null);
+      setClarifyingBrief(brief);
+      return;
+    }
+
+    // Hold the brief for review; research-start is only called once the user launches it
+    setClarifyingBrief(null);
+    setPendingBrief(brief);
+  };
+
+  const handleAnswerClarification = async (answers: ClarificationAnswer[]) => {
+    if (!sessionId || researching) return;
+
+    const allAnswers = mergeClarificationAnswers(clarificationAnswers, answers);
+    setClarificationAnswers(allAnswers);
+
+    setResearching(true);
+    try {
+      presentBrief(await requestBrief(sessionId, allAnswers));
+    } catch (error) {
+      console.error('Error updating research brief:', error);
+      addLog('error', 'Error updating research brief', 'frontend', { error: error.message });
+      await addMessage('system', `❌ **Error Updating Research Brief**\n\nSorry, there was an error: ${error.message}\n\n*Answer again or skip to review the brief as drafted.*`, {
+        error: true
+      });
+    } finally {
       setResearching(false);
     }
   };
 
-  const handleChatQuery = async (messageContent: string, sessionId: string) => {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-send`, {
+  const handleSkipClarification = () => {
+    if (!clarifyingBrief) return;
+    setPendingBrief(clarifyingBrief);
+    setClarifyingBrief(null);
+  };
+
+  const requestBrief = async (sessionId: string, answers?: ClarificationAnswer[]): Promise<ResearchBrief> => {
+    addLog('info', 'Requesting research brief from chat-plan API', 'api', { sessionId, answers: answers?.length ?? 0 });
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-plan`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        sessionId,
-        message: messageContent,
-      }),
+      headers: await functionHeaders(),
+      body: JSON.stringify({ sessionId, answers }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to get AI response');
+      const errorText = await response.text();
+      addLog('error', 'Research planning API error', 'api', {
+        status: response.status,
+        error: errorText
+      });
+      if (response.status === 402) {
+        throw new Error(JSON.parse(errorText).error);
+      }
+      throw new Error('Failed to draft a research brief - check Gemini API configuration');
     }
 
     const result = await response.json();
-    
+
     if (result.error) {
+      addLog('error', 'Error in chat-plan response', 'api', { error: result.error });
       throw new Error(result.error);
     }
 
-    if (!result.content || result.content === 'No response generated') {
-      throw new Error('AI returned no response. This could be due to API limits or content policy. Please try rephrasing your question.');
+    const parsed = researchBriefSchema.safeParse(result);
+    if (!parsed.success) {
+      addLog('error', 'Invalid research brief from chat-plan', 'api', { issues: parsed.error.issues });
+      throw new Error('The research brief came back incomplete - please try again');
     }
-    
-    // Add assistant message  
-    await addMessage('assistant', result.content, {
-      tokens: result.tokens,
-      model: result.model || 'gemini-2.5-flash'
-    });
+
+    addLog('success', 'Research brief created', 'frontend', { objective: parsed.data.objective });
+
+    return parsed.data;
   };
 
-  const handleResearchQuery = async (messageContent: string, sessionId: string) => {
-    addLog('info', 'Starting research query processing', 'frontend', { query: messageContent, sessionId });
-    
-    addLog('info', 'Research brief created', 'frontend');
-
-    // Create research brief
-    const brief = {
-      objective: messageContent,
-      constraints: [],
-      target_sources: ['academic', 'news', 'web', 'technical_docs'],
-      disallowed_sources: ['social_media', 'forums'],
-      timebox_minutes: 5,
-      expected_output_fields: ['summary', 'key_facts', 'sources', 'recommendations'],
-      summary: `Research request: ${messageContent}`
-    };
+  const openBatchDialog = (seed: ResearchBrief | null = null) => {
+    setBatchSeed(seed);
+    setBatchDialogOpen(true);
+  };
+
+  const handleCreateBatch = async (input: CreateBatchInput) => {
+    addLog('info', 'Creating research batch', 'api', { sessionId, entities: input.entities.length });
+    try {
+      const result = await createBatch(input);
+      addLog('success', 'Research batch started', 'api', { batchId: result.batch_id, total: result.total });
+      if (batchSeed) setPendingBrief(null);
+    } catch (error) {
+      addLog('error', 'Error creating research batch', 'api', { error: error.message });
+      throw error;
+    }
+  };
+
+  const handleLaunchResearch = async (brief: ResearchBrief) => {
+    if (!sessionId || launching) return;
+
+    setLaunching(true);
 
+    try {
+      await launchResearch(brief, sessionId);
+      setPendingBrief(null);
+    } catch (error) {
+      console.error('Error launching research:', error);
+      addLog('error', 'Error launching research', 'frontend', { error: error.message });
+      await addMessage('system', `❌ **Error Launching Research**\n\nSorry, there was an error: ${error.message}\n\n*Adjust the brief and try launching again.*`, {
+        error: true
+      });
+    } finally {
+      setLaunching(false);
+    }
+  };
+
+  const launchResearch = async (brief: ResearchBrief, sessionId: string) => {
     addLog('info', 'Sending request to research-start API', 'api', { 
-      url: `https://crdvvzncxicklblypvnz.supabase.co/functions/v1/research-start`,
+      url: `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-start`,
       sessionId 
     });
 
-    const response = await fetch(`https://crdvvzncxicklblypvnz.supabase.co/functions/v1/research-start`, {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-start`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await functionHeaders(),
       body: JSON.stringify({
         sessionId,
         brief
@@ -168,6 +489,11 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
         error: errorText 
       });
       console.error('Research start error:', errorText);
+      // 400: the brief was rejected, with the problems listed. 402: a spending budget is used
+      // up; its message says which one and when it resets
+      if (response.status === 400 || response.status === 402) {
+        throw new Error(JSON.parse(errorText).error);
+      }
       throw new Error('Failed to start research task - check Parallel API configuration');
     }
 
@@ -186,17 +512,34 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
     });
 
     // Add research progress UI message
-    await addMessage('research_progress', messageContent, {
+    await addMessage('research_progress', brief.objective, {
       run_id: result.run_id,
       status: result.status,
       sse_url: result.sse_url,
       task_launched: true,
-      query: messageContent
+      query: brief.objective
     });
 
     addLog('success', 'Research task launched successfully', 'frontend', { runId: result.run_id });
   };
 
+  const handleCancelResearch = async (runId: string) => {
+    addLog('info', 'Canceling research task', 'api', { runId });
+
+    try {
+      const { status } = await cancelRun(runId);
+      addLog('success', status === 'canceled' ? 'Research task canceled' : `Research task already ${status}`, 'api', { runId });
+    } catch (error) {
+      addLog('error', 'Error canceling research task', 'api', { runId, error: error.message });
+      throw error;
+    }
+  };
+
+  const branchPosition = (message: (typeof messages)[number]) => {
+    const siblings = siblingsOf(messages, message);
+    return { index: siblings.findIndex(sibling => sibling.id === message.id), count: siblings.length };
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -226,16 +569,67 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
-            ) : messages.length === 0 ? (
+            ) : branchMessages.length === 0 ? (
               <div className="text-center py-8">
                 <Bot className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
                 <p className="text-muted-foreground">Start the conversation by asking a research question</p>
               </div>
             ) : (
-              messages.map((message) => (
-                <MessageCard key={message.id} message={message} />
+              branchMessages.map((message) => (
+                <MessageCard
+                  key={message.id}
+                  branch={branchPosition(message)}
+                  message={streamingReply?.replaceMessageId === message.id
+                    ? { ...message, content: streamingReply.content, metadata: { ...message.metadata, streaming: true } }
+                    : message}
+                  onRetry={handleRetry}
+                  onRegenerate={handleRegenerate}
+                  onSelectVariant={handleSelectVariant}
+                  onEdit={handleEditMessage}
+                  onSwitchBranch={handleSwitchBranch}
+                  onCancelResearch={handleCancelResearch}
+                />
               ))
             )}
+            {streamingReply && !streamingReply.replaceMessageId && (
+              <MessageCard
+                message={{
+                  id: 'streaming-reply',
+                  role: 'assistant',
+                  content: streamingReply.content,
+                  metadata: { streaming: true },
+                  created_at: new Date().toISOString(),
+                }}
+              />
+            )}
+            {batches.map(batch => (
+              <BatchProgressCard
+                key={batch.id}
+                batch={batch}
+                onCancel={cancelBatch}
+                onResume={resumeBatch}
+                onDownload={downloadResults}
+              />
+            ))}
+            {clarifyingBrief?.missing_information && (
+              <ClarificationCard
+                questions={clarifyingBrief.missing_information}
+                objective={clarifyingBrief.objective}
+                submitting={researching}
+                onSubmit={handleAnswerClarification}
+                onSkip={handleSkipClarification}
+                onDiscard={() => setClarifyingBrief(null)}
+              />
+            )}
+            {pendingBrief && (
+              <BriefReviewCard
+                brief={pendingBrief}
+                launching={launching}
+                onLaunch={handleLaunchResearch}
+                onDiscard={() => setPendingBrief(null)}
+                onRunBatch={openBatchDialog}
+              />
+            )}
             <div ref={messagesEndRef} />
           </div>
         </ScrollArea>
@@ -244,29 +638,74 @@ export function ChatArea({ sessionId }: ChatAreaProps) {
       {/* Input - always visible at bottom */}
       <div className="shrink-0 p-4 border-t border-border bg-background">
         <div className="flex gap-2 max-w-4xl mx-auto">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={composerMode}
+            onValueChange={(value) => value && setComposerMode(value as ComposerMode)}
+            disabled={sending || researching || launching}
+          >
+            <ToggleGroupItem value="auto" className="h-10" title="Let the assistant decide">Auto</ToggleGroupItem>
+            <ToggleGroupItem value="chat" className="h-10" title="Always reply in chat">Chat</ToggleGroupItem>
+            <ToggleGroupItem value="research" className="h-10" title="Always draft a research brief">Research</ToggleGroupItem>
+          </ToggleGroup>
+          <ModelSettingsDialog
+            settings={sessions.find(session => session.id === sessionId)?.model_settings}
+            disabled={!!streamingReply}
+            onSave={handleSaveModelSettings}
+          />
+          <Button
+            variant="outline"
+            className="h-10 px-3"
+            onClick={() => openBatchDialog()}
+            disabled={sending || researching || launching}
+            title="Batch research over a list"
+          >
+            <Layers className="h-4 w-4" />
+          </Button>
+          <BatchResearchDialog
+            open={batchDialogOpen}
+            onOpenChange={setBatchDialogOpen}
+            initialBrief={batchSeed}
+            onCreate={handleCreateBatch}
+          />
           <Input
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder={researching ? "Research in progress..." : "Ask a question or request research..."}
-            disabled={sending || researching}
+            placeholder={researching ? "Drafting research brief..." : "Ask a question, or start with /research or /chat..."}
+            disabled={sending || researching || launching}
             className="flex-1 h-10"
           />
-          <Button 
-            onClick={handleSendMessage} 
-            disabled={sending || researching || !input.trim()}
-            variant={isResearchQuery(input) ? "default" : "secondary"}
-            className="h-10 px-3"
-          >
-            {sending || researching ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : isResearchQuery(input) ? (
-              <Search className="h-4 w-4" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
+          {streamingReply ? (
+            <Button
+              onClick={handleStopGeneration}
+              variant="outline"
+              className="h-10 px-3"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSendMessage} 
+              disabled={sending || researching || launching || !input.trim()}
+              variant={pendingMode === 'research' ? "default" : "secondary"}
+              className="h-10 px-3"
+              title={pendingMode === 'auto' ? 'Send (chat or research)' : pendingMode === 'research' ? 'Draft research brief' : 'Send'}
+            >
+              {sending || researching ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : pendingMode === 'research' ? (
+                <Search className="h-4 w-4" />
+              ) : pendingMode === 'auto' ? (
+                <Sparkles className="h-4 w-4" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </div>
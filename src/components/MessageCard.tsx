@@ -1,12 +1,15 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { User, Bot, Search, Webhook, AlertTriangle, Copy, RotateCcw } from 'lucide-react';
+import { User, Bot, Search, Webhook, AlertTriangle, Copy, RotateCcw, RefreshCw, ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
 import ReactMarkdown from 'react-markdown';
 import { formatDistanceToNow } from 'date-fns';
 import { useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { ResearchProgressUI } from './ResearchProgressUI';
+import { ResearchResultView } from './research/ResearchResultView';
+import { isResultObject } from '@/lib/parallel';
 import { motion } from 'framer-motion';
 
 interface MessageCardProps {
@@ -18,10 +21,28 @@ interface MessageCardProps {
     created_at: string;
   };
   onRetry?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onSelectVariant?: (messageId: string, index: number) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  // Position among messages that share this one's parent, i.e. alternative branches
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (messageId: string, index: number) => void;
+  onCancelResearch?: (runId: string) => Promise<void>;
 }
 
-export function MessageCard({ message, onRetry }: MessageCardProps) {
+export function MessageCard({
+  message,
+  onRetry,
+  onRegenerate,
+  onSelectVariant,
+  onEdit,
+  branch,
+  onSwitchBranch,
+  onCancelResearch
+}: MessageCardProps) {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const { toast } = useToast();
 
   const getRoleIcon = (role: string) => {
@@ -76,12 +97,33 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
     }
   };
 
+  const structuredResults = message.role === 'research' && isResultObject(message.metadata?.results)
+    ? message.metadata.results
+    : null;
+
   const handleRetry = () => {
     if (onRetry) {
       onRetry(message.id);
     }
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setEditing(false);
+    onEdit(message.id, draft);
+  };
+
+  const isStreaming = !!message.metadata?.streaming;
+  const variants: unknown[] = Array.isArray(message.metadata?.variants) ? message.metadata.variants : [];
+  const activeVariant = typeof message.metadata?.active_variant === 'number'
+    ? message.metadata.active_variant
+    : variants.length - 1;
+
   return (
     <Card className="w-full">
       <CardContent className="p-4">
@@ -97,6 +139,58 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
           </div>
           
           <div className="flex items-center gap-1">
+            {branch && branch.count > 1 && (
+              <div className="flex items-center text-xs text-muted-foreground mr-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSwitchBranch?.(message.id, branch.index - 1)}
+                  disabled={!onSwitchBranch || branch.index <= 0}
+                  className="h-6 w-6 p-0"
+                  title="Previous branch"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </Button>
+                <span>Branch {branch.index + 1}/{branch.count}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSwitchBranch?.(message.id, branch.index + 1)}
+                  disabled={!onSwitchBranch || branch.index >= branch.count - 1}
+                  className="h-6 w-6 p-0"
+                  title="Next branch"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+
+            {variants.length > 1 && !isStreaming && (
+              <div className="flex items-center text-xs text-muted-foreground mr-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSelectVariant?.(message.id, activeVariant - 1)}
+                  disabled={!onSelectVariant || activeVariant <= 0}
+                  className="h-6 w-6 p-0"
+                  title="Previous version"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </Button>
+                <span>{activeVariant + 1}/{variants.length}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSelectVariant?.(message.id, activeVariant + 1)}
+                  disabled={!onSelectVariant || activeVariant >= variants.length - 1}
+                  className="h-6 w-6 p-0"
+                  title="Next version"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+
             <Button
               variant="ghost"
               size="sm"
@@ -117,14 +211,61 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
                 <RotateCcw className="h-3 w-3" />
               </Button>
             )}
+
+            {message.role === 'user' && onEdit && !editing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={startEditing}
+                className="h-6 w-6 p-0"
+                title="Edit and resend"
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+
+            {message.role === 'assistant' && onRegenerate && !isStreaming && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRegenerate(message.id)}
+                className="h-6 w-6 p-0"
+                title="Regenerate"
+              >
+                <RefreshCw className="h-3 w-3" />
+              </Button>
+            )}
           </div>
         </div>
         
         <div className="prose prose-sm max-w-none dark:prose-invert">
-          {message.role === 'research_progress' ? (
+          {editing ? (
+            <div className="not-prose space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-[80px]"
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                Sending starts a new branch from here; the original stays available.
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || draft.trim() === message.content.trim()}>
+                  Save & Send
+                </Button>
+              </div>
+            </div>
+          ) : message.role === 'research_progress' ? (
             <ResearchProgressUI
               runId={message.metadata?.run_id || ''}
               query={message.metadata?.query || message.content}
+              onCancel={onCancelResearch && message.metadata?.run_id
+                ? () => onCancelResearch(message.metadata.run_id)
+                : undefined}
               onComplete={(result) => {
                 console.log('Research completed:', result);
                 // Could trigger a callback to update the message or create a new one
@@ -134,6 +275,18 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
                 // Could trigger error handling
               }}
             />
+          ) : structuredResults && Object.keys(structuredResults).length > 0 ? (
+            <div className="space-y-3">
+              <p className="font-semibold">✅ Research Complete</p>
+              <ResearchResultView
+                results={structuredResults}
+                schema={message.metadata?.output_schema}
+                basis={message.metadata?.basis}
+              />
+              {message.metadata?.run_id && (
+                <p className="text-xs text-muted-foreground italic">Task ID: {message.metadata.run_id}</p>
+              )}
+            </div>
           ) : message.metadata?.status === 'researching' ? (
             <motion.div
               animate={{ opacity: [0.5, 1, 0.5] }}
@@ -180,7 +333,14 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
               {message.content}
             </ReactMarkdown>
           )}
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+          )}
         </div>
+
+        {message.metadata?.aborted && (
+          <p className="text-xs text-muted-foreground italic mt-2">Response stopped before it finished.</p>
+        )}
         
         {/* Add pulsing animation for researching messages */}
         {message.metadata?.status === 'researching' && (
@@ -202,6 +362,9 @@ export function MessageCard({ message, onRetry }: MessageCardProps) {
             {message.metadata?.model && (
               <span>Model: {message.metadata.model}</span>
             )}
+            {message.metadata?.latency_ms && (
+              <span>Latency: {(message.metadata.latency_ms / 1000).toFixed(1)}s</span>
+            )}
             {message.metadata?.run_id && (
               <span>Task ID: {message.metadata.run_id}</span>
             )}
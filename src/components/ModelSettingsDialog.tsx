@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, SlidersHorizontal } from 'lucide-react';
+import {
+  GEMINI_MODELS,
+  MAX_SYSTEM_INSTRUCTION_LENGTH,
+  MAX_TEMPERATURE,
+  MODEL_DEFAULTS,
+  findModel,
+  type SessionModelSettings,
+} from '@/lib/gemini';
+
+interface ModelSettingsDialogProps {
+  settings?: SessionModelSettings;
+  disabled?: boolean;
+  onSave: (settings: SessionModelSettings) => Promise<void>;
+}
+
+const CHAT_DEFAULTS = MODEL_DEFAULTS.chat;
+
+function withDefaults(settings?: SessionModelSettings) {
+  return {
+    model: findModel(settings?.model)?.id ?? CHAT_DEFAULTS.model,
+    temperature: settings?.temperature ?? CHAT_DEFAULTS.generationConfig.temperature ?? 0.9,
+    max_output_tokens: settings?.max_output_tokens ?? CHAT_DEFAULTS.generationConfig.maxOutputTokens ?? 2048,
+    system_instruction: settings?.system_instruction ?? '',
+  };
+}
+
+export function ModelSettingsDialog({ settings, disabled = false, onSave }: ModelSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState(() => withDefaults(settings));
+
+  // Start from the stored settings every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(withDefaults(settings));
+  }, [open, settings]);
+
+  const selectedModel = findModel(draft.model);
+  const maxTokensLimit = selectedModel?.maxOutputTokens ?? 8192;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        model: draft.model,
+        temperature: draft.temperature,
+        max_output_tokens: Math.min(Math.max(Math.round(draft.max_output_tokens) || 1, 1), maxTokensLimit),
+        system_instruction: draft.system_instruction.trim() || undefined,
+      });
+      setOpen(false);
+    } catch {
+      // Keep the dialog open so the change isn't lost; the caller logs the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-3" disabled={disabled} title="Model settings">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+          <DialogDescription>
+            Applies to chat replies in this session. Research planning uses the same model and instructions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Model</Label>
+            <Select value={draft.model} onValueChange={(model) => setDraft(prev => ({ ...prev, model }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GEMINI_MODELS.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedModel && (
+              <p className="text-xs text-muted-foreground">{selectedModel.description}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Temperature</Label>
+              <span className="text-xs text-muted-foreground">{draft.temperature.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={0.1}
+              value={[draft.temperature]}
+              onValueChange={([temperature]) => setDraft(prev => ({ ...prev, temperature }))}
+            />
+            <p className="text-xs text-muted-foreground">Lower is more focused, higher is more varied.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-output-tokens">Max output tokens</Label>
+            <Input
+              id="max-output-tokens"
+              type="number"
+              min={1}
+              max={maxTokensLimit}
+              value={draft.max_output_tokens}
+              onChange={(e) => setDraft(prev => ({ ...prev, max_output_tokens: Number(e.target.value) }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="system-instruction">Session instruction</Label>
+            <Textarea
+              id="system-instruction"
+              value={draft.system_instruction}
+              maxLength={MAX_SYSTEM_INSTRUCTION_LENGTH}
+              onChange={(e) => setDraft(prev => ({ ...prev, system_instruction: e.target.value }))}
+              placeholder="e.g. Answer as a financial analyst and keep replies under 200 words."
+              className="min-h-[100px]"
+            />
+            <p className="text-xs text-muted-foreground">Added after the session's persona, so it can refine or override it.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(withDefaults())} disabled={saving}>
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { useSessions } from '@/hooks/useSessions';
 import { FixedViewportLayout } from './layout/FixedViewportLayout';
 import { SessionsSidebar } from './sidebars/SessionsSidebar';
+import type { NewSessionOptions } from './sidebars/NewSessionDialog';
 import { ActivitySidebar } from './sidebars/ActivitySidebar';
 import { ChatArea } from './ChatArea';
 import AuthPage from './AuthPage';
@@ -24,10 +25,10 @@ export default function ResearchCopilot() {
     }
   }, [sessions, currentSessionId]);
 
-  const handleNewSession = async () => {
+  const handleNewSession = async (options: NewSessionOptions = {}) => {
     try {
       // Unlimited sessions now supported
-      const session = await createSession();
+      const session = await createSession(options.title, options.presetId);
       setCurrentSessionId(session.id);
       
       toast({
@@ -96,7 +97,7 @@ export default function ResearchCopilot() {
             onDeleteSession={handleDeleteSession}
           />
         }
-        rightSidebar={<ActivitySidebar />}
+        rightSidebar={<ActivitySidebar sessionId={currentSessionId} />}
         onTransportConsoleToggle={() => setShowTransportConsole(!showTransportConsole)}
         showTransportConsole={showTransportConsole}
       >
@@ -8,7 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { useResearchProgress } from '@/hooks/useResearchProgress';
 import { ParticleAnimation } from './ParticleAnimation';
 import { LiveUpdatesPanel } from './LiveUpdatesPanel';
-import { Copy, FileText, CheckCircle, XCircle, RotateCcw, Clock } from 'lucide-react';
+import { Copy, FileText, CheckCircle, XCircle, RotateCcw, Clock, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -17,7 +17,7 @@ interface ResearchProgressUIProps {
   query: string;
   onComplete?: (result: any) => void;
   onError?: (error: string) => void;
-  onCancel?: () => void;
+  onCancel?: () => void | Promise<void>;
 }
 
 export function ResearchProgressUI({ 
@@ -42,6 +42,7 @@ export function ResearchProgressUI({
 
   const [showParticles, setShowParticles] = useState(true);
   const [completionAnimation, setCompletionAnimation] = useState(false);
+  const [canceling, setCanceling] = useState(false);
 
   useEffect(() => {
     startProgress();
@@ -83,6 +84,23 @@ export function ResearchProgressUI({
     }
   };
 
+  const handleCancel = async () => {
+    if (!onCancel) return;
+
+    setCanceling(true);
+    try {
+      await onCancel();
+    } catch (err) {
+      toast({
+        title: 'Cancel failed',
+        description: err instanceof Error ? err.message : 'Could not cancel the research task',
+        variant: 'destructive',
+      });
+    } finally {
+      setCanceling(false);
+    }
+  };
+
   const handleRetry = () => {
     setShowParticles(true);
     setCompletionAnimation(false);
@@ -101,6 +119,8 @@ export function ResearchProgressUI({
         return 'Research complete.';
       case 'failed':
         return 'Research hit an error. Try again.';
+      case 'canceled':
+        return 'Research canceled.';
       default:
         return 'Processing...';
     }
@@ -112,6 +132,8 @@ export function ResearchProgressUI({
         return 'bg-green-500';
       case 'failed':
         return 'bg-red-500';
+      case 'canceled':
+        return 'bg-muted-foreground';
       default:
         return 'bg-primary';
     }
@@ -127,6 +149,8 @@ export function ResearchProgressUI({
                 <CheckCircle className="h-5 w-5 text-green-500" />
               ) : status === 'failed' ? (
                 <XCircle className="h-5 w-5 text-red-500" />
+              ) : status === 'canceled' ? (
+                <XCircle className="h-5 w-5 text-muted-foreground" />
               ) : (
                 <Clock className="h-5 w-5 text-primary animate-pulse" />
               )}
@@ -137,11 +161,12 @@ export function ResearchProgressUI({
             </p>
           </div>
           <div className="flex items-center gap-2">
-            <Badge variant={status === 'completed' ? 'default' : status === 'failed' ? 'destructive' : 'secondary'}>
+            <Badge variant={status === 'completed' ? 'default' : status === 'failed' ? 'destructive' : status === 'canceled' ? 'outline' : 'secondary'}>
               {status.replace('_', ' ')}
             </Badge>
-            {status !== 'completed' && status !== 'failed' && onCancel && (
-              <Button variant="outline" size="sm" onClick={onCancel}>
+            {!isComplete && onCancel && (
+              <Button variant="outline" size="sm" onClick={handleCancel} disabled={canceling}>
+                {canceling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Cancel
               </Button>
             )}
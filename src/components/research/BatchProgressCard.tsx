@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Download, Layers, Loader2, Play, Square } from 'lucide-react';
+import type { ResearchBatch } from '@/hooks/useResearchBatches';
+
+interface BatchProgressCardProps {
+  batch: ResearchBatch;
+  onCancel: (batchId: string) => Promise<void>;
+  onResume: (batchId: string) => Promise<void>;
+  onDownload: (batch: ResearchBatch) => Promise<void>;
+}
+
+const STATUS_VARIANTS: Record<ResearchBatch['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  paused: 'destructive',
+  completed: 'secondary',
+  canceled: 'outline',
+};
+
+export function BatchProgressCard({ batch, onCancel, onResume, onDownload }: BatchProgressCardProps) {
+  const [busy, setBusy] = useState<'cancel' | 'resume' | 'download' | null>(null);
+
+  const { counts, total } = batch;
+  const finished = counts.completed + counts.failed + counts.canceled;
+  const inFlight = counts.queued + counts.running;
+  const isOpen = batch.status === 'running' || batch.status === 'paused';
+
+  const run = async (action: NonNullable<typeof busy>, fn: () => Promise<void>) => {
+    setBusy(action);
+    try {
+      await fn();
+    } catch (error) {
+      console.error(`Error running batch ${action}:`, error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <Layers className="h-4 w-4 text-primary flex-shrink-0" />
+              <span className="truncate">{batch.name}</span>
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              {total} rows · {batch.processor} processor · {batch.concurrency} at a time
+            </p>
+          </div>
+          <Badge variant={STATUS_VARIANTS[batch.status]} className="capitalize">{batch.status}</Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <Progress value={total > 0 ? (finished / total) * 100 : 0} className="h-2" />
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>{counts.completed} completed</span>
+          {inFlight > 0 && <span>{inFlight} running</span>}
+          {counts.pending > 0 && <span>{counts.pending} waiting</span>}
+          {counts.failed > 0 && <span className="text-destructive">{counts.failed} failed</span>}
+          {counts.canceled > 0 && <span>{counts.canceled} canceled</span>}
+        </div>
+
+        {batch.status === 'paused' && batch.status_reason && (
+          <p className="text-xs text-destructive">{batch.status_reason}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {batch.status === 'paused' && (
+            <Button variant="outline" size="sm" onClick={() => run('resume', () => onResume(batch.id))} disabled={!!busy}>
+              {busy === 'resume' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+              Resume
+            </Button>
+          )}
+          {isOpen && (
+            <Button variant="outline" size="sm" onClick={() => run('cancel', () => onCancel(batch.id))} disabled={!!busy}>
+              {busy === 'cancel' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Square className="h-3 w-3 mr-1" />}
+              Cancel
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant={isOpen ? 'ghost' : 'default'}
+            onClick={() => run('download', () => onDownload(batch))}
+            disabled={!!busy || counts.completed === 0}
+            title={isOpen ? 'Download the rows finished so far' : 'Download the merged results'}
+          >
+            {busy === 'download' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+            {isOpen ? 'Partial CSV' : 'Download CSV'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
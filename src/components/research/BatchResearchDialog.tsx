@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Play } from 'lucide-react';
+import type { ResearchBrief } from '@/lib/gemini';
+import {
+  OUTPUT_SCHEMA_LIBRARY,
+  PROCESSORS,
+  findProcessor,
+  formatCost,
+  type ProcessorTier,
+} from '@/lib/parallel';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  ENTITY_PLACEHOLDER,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ENTITIES,
+  entitiesFromRows,
+  hasEntityPlaceholder,
+  parseCsv,
+} from '@/lib/research-batch';
+import type { CreateBatchInput } from '@/hooks/useResearchBatches';
+
+interface BatchResearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Drafted brief to start the template from, e.g. the one under review
+  initialBrief?: ResearchBrief | null;
+  onCreate: (input: CreateBatchInput) => Promise<void>;
+}
+
+const DEFAULT_TEMPLATE = 'company_profile';
+
+function templateFrom(brief?: ResearchBrief | null) {
+  return {
+    name: brief?.summary ?? '',
+    objective: brief?.objective ?? `Research ${ENTITY_PLACEHOLDER}`,
+    outputTemplate: brief?.output_template ?? DEFAULT_TEMPLATE,
+    fields: brief?.expected_output_fields.join(', ') ?? '',
+    processor: brief?.processor ?? 'base',
+  };
+}
+
+export function BatchResearchDialog({ open, onOpenChange, initialBrief, onCreate }: BatchResearchDialogProps) {
+  const [template, setTemplate] = useState(() => templateFrom(initialBrief));
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [source, setSource] = useState<'paste' | 'csv'>('paste');
+  const [pasted, setPasted] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [csvColumn, setCsvColumn] = useState(0);
+  const [csvHeader, setCsvHeader] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTemplate(templateFrom(initialBrief));
+      setError(null);
+    }
+  }, [open, initialBrief]);
+
+  const entities = source === 'paste'
+    ? entitiesFromRows(pasted.split('\n').map(line => [line]))
+    : entitiesFromRows(csvRows, csvColumn, csvHeader);
+  const columns = csvRows[0] ?? [];
+  const processor = findProcessor(template.processor);
+  const fields = template.fields.split(',').map(field => field.trim()).filter(Boolean);
+
+  const problem = !hasEntityPlaceholder(template)
+    ? `The objective must contain ${ENTITY_PLACEHOLDER}`
+    : entities.length === 0
+      ? 'Add at least one entity'
+      : entities.length > MAX_BATCH_ENTITIES
+        ? `At most ${MAX_BATCH_ENTITIES} entities per batch`
+        : null;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setCsvRows(parseCsv(await file.text()));
+    setCsvColumn(0);
+  };
+
+  const handleCreate = async () => {
+    if (problem || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      await onCreate({
+        name: template.name.trim() || undefined,
+        concurrency,
+        entities,
+        brief: {
+          objective: template.objective.trim(),
+          summary: template.name.trim() || template.objective.trim(),
+          constraints: initialBrief?.constraints ?? [],
+          target_sources: initialBrief?.target_sources ?? [],
+          disallowed_sources: initialBrief?.disallowed_sources ?? [],
+          timebox_minutes: initialBrief?.timebox_minutes ?? 5,
+          // The schema needs at least one; the template's own fields are what a blank list means
+          expected_output_fields: fields.length > 0
+            ? fields
+            : Object.keys(OUTPUT_SCHEMA_LIBRARY[template.outputTemplate]?.fields ?? { summary: null }),
+          output_field_specs: initialBrief?.output_field_specs,
+          output_template: template.outputTemplate,
+          processor: processor.id,
+        },
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Research</DialogTitle>
+          <DialogDescription>
+            Run the same brief once per entity. {ENTITY_PLACEHOLDER} in the objective is replaced by each row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="batch-name">Name</Label>
+            <Input
+              id="batch-name"
+              value={template.name}
+              onChange={(e) => setTemplate(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Competitor pricing, Q4"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="batch-objective">Objective template</Label>
+            <Textarea
+              id="batch-objective"
+              value={template.objective}
+              onChange={(e) => setTemplate(prev => ({ ...prev, objective: e.target.value }))}
+              placeholder={`Find the pricing tiers and target customers of ${ENTITY_PLACEHOLDER}`}
+              className="min-h-[72px]"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Output template</Label>
+              <Select
+                value={template.outputTemplate}
+                onValueChange={(value) => setTemplate(prev => ({ ...prev, outputTemplate: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(OUTPUT_SCHEMA_LIBRARY).map(([name, schema]) => (
+                    <SelectItem key={name} value={name}>{schema.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-fields">Extra output fields (comma separated)</Label>
+              <Input
+                id="batch-fields"
+                value={template.fields}
+                onChange={(e) => setTemplate(prev => ({ ...prev, fields: e.target.value }))}
+                placeholder="pricing_tiers, headquarters"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Processor</Label>
+              <Select
+                value={processor.id}
+                onValueChange={(value) => setTemplate(prev => ({ ...prev, processor: value as ProcessorTier }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROCESSORS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label} ({formatCost(option.costPerRunUsd)} per row)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-concurrency">Runs at a time</Label>
+              <Input
+                id="batch-concurrency"
+                type="number"
+                min={1}
+                max={MAX_BATCH_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_BATCH_CONCURRENCY))}
+              />
+            </div>
+          </div>
+
+          <Tabs value={source} onValueChange={(value) => setSource(value as 'paste' | 'csv')}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="paste">Paste a list</TabsTrigger>
+              <TabsTrigger value="csv">Upload CSV</TabsTrigger>
+            </TabsList>
+            <TabsContent value="paste" className="mt-3">
+              <Textarea
+                value={pasted}
+                onChange={(e) => setPasted(e.target.value)}
+                placeholder={'One entity per line\nAcme Corp\nGlobex\nInitech'}
+                className="min-h-[140px] font-mono text-sm"
+              />
+            </TabsContent>
+            <TabsContent value="csv" className="mt-3 space-y-3">
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+              {columns.length > 0 && (
+                <div className="flex items-center gap-4">
+                  <div className="flex-1 space-y-1">
+                    <Label className="text-xs">Entity column</Label>
+                    <Select value={String(csvColumn)} onValueChange={(value) => setCsvColumn(Number(value))}>
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.map((column, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {csvHeader ? column || `Column ${index + 1}` : `Column ${index + 1} (${column})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm pt-5">
+                    <Checkbox checked={csvHeader} onCheckedChange={(checked) => setCsvHeader(checked === true)} />
+                    First row is a header
+                  </label>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          <p className="text-sm text-muted-foreground">
+            {entities.length} {entities.length === 1 ? 'entity' : 'entities'}
+            {entities.length > 0 && ` · est. ${formatCost(entities.length * processor.costPerRunUsd)} in total`}
+            {entities.length > 0 && ` · e.g. "${template.objective.split(ENTITY_PLACEHOLDER).join(entities[0])}"`}
+          </p>
+          {(error || (problem && entities.length > 0)) && (
+            <p className="text-sm text-destructive">{error || problem}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={creating}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!!problem || creating}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Launch {entities.length || ''} Runs
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Layers, Loader2, Play, X } from 'lucide-react';
+import type { ResearchBrief } from '@/lib/gemini';
+import {
+  OUTPUT_SCHEMA_LIBRARY,
+  PROCESSORS,
+  findProcessor,
+  formatCost,
+  formatLatency,
+  suggestProcessor,
+  type ProcessorTier,
+} from '@/lib/parallel';
+
+const CUSTOM_TEMPLATE = 'custom';
+
+interface BriefReviewCardProps {
+  brief: ResearchBrief;
+  launching?: boolean;
+  onLaunch: (brief: ResearchBrief) => void;
+  onDiscard: () => void;
+  // Open the batch dialog with this brief as the template
+  onRunBatch?: (brief: ResearchBrief) => void;
+}
+
+export function BriefReviewCard({ brief, launching = false, onLaunch, onDiscard, onRunBatch }: BriefReviewCardProps) {
+  const [draft, setDraft] = useState<ResearchBrief>(brief);
+
+  // Reset the draft whenever a fresh brief comes back from the planner
+  useEffect(() => {
+    setDraft(brief);
+  }, [brief]);
+
+  const updateField = <K extends keyof ResearchBrief>(field: K, value: ResearchBrief[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  // The planner's pick, or a tier sized to the timebox and field count if it didn't choose
+  const processor = findProcessor(draft.processor ?? suggestProcessor({
+    timebox_minutes: draft.timebox_minutes,
+    expected_output_fields: draft.expected_output_fields,
+  }));
+
+  const canLaunch = draft.objective.trim().length > 0 && draft.timebox_minutes > 0 && !launching;
+
+  const handleLaunch = () => {
+    if (!canLaunch) return;
+    onLaunch({
+      ...draft,
+      objective: draft.objective.trim(),
+      processor: processor.id,
+      constraints: draft.constraints.map(c => c.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto border-primary/40">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-primary" />
+              Review Research Brief
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {brief.summary || 'Check the plan before launching the research task.'}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={launching} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="brief-objective">Objective</Label>
+          <Textarea
+            id="brief-objective"
+            value={draft.objective}
+            onChange={(e) => updateField('objective', e.target.value)}
+            disabled={launching}
+            className="min-h-[72px]"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="brief-constraints">Constraints (one per line)</Label>
+          <Textarea
+            id="brief-constraints"
+            value={draft.constraints.join('\n')}
+            onChange={(e) => updateField('constraints', e.target.value.split('\n'))}
+            disabled={launching}
+            className="min-h-[72px]"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <TagListInput
+            label="Allowed sources"
+            values={draft.target_sources}
+            onChange={(values) => updateField('target_sources', values)}
+            disabled={launching}
+          />
+          <TagListInput
+            label="Disallowed sources"
+            values={draft.disallowed_sources}
+            onChange={(values) => updateField('disallowed_sources', values)}
+            disabled={launching}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+          <div className="space-y-2">
+            <Label>Output template</Label>
+            <Select
+              value={draft.output_template && OUTPUT_SCHEMA_LIBRARY[draft.output_template] ? draft.output_template : CUSTOM_TEMPLATE}
+              onValueChange={(value) => updateField('output_template', value === CUSTOM_TEMPLATE ? undefined : value)}
+              disabled={launching}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_TEMPLATE}>Custom fields only</SelectItem>
+                {Object.entries(OUTPUT_SCHEMA_LIBRARY).map(([name, schema]) => (
+                  <SelectItem key={name} value={name}>{schema.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <TagListInput
+            label="Expected output fields"
+            values={draft.expected_output_fields}
+            onChange={(values) => updateField('expected_output_fields', values)}
+            disabled={launching}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2 w-40">
+              <Label htmlFor="brief-timebox">Timebox (minutes)</Label>
+              <Input
+                id="brief-timebox"
+                type="number"
+                min={1}
+                max={60}
+                value={draft.timebox_minutes}
+                onChange={(e) => updateField('timebox_minutes', Number(e.target.value) || 0)}
+                disabled={launching}
+              />
+            </div>
+            <div className="space-y-2 w-40">
+              <Label>Processor</Label>
+              <Select
+                value={processor.id}
+                onValueChange={(value) => updateField('processor', value as ProcessorTier)}
+                disabled={launching}
+              >
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROCESSORS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-xs text-muted-foreground pb-1">
+              <p>Est. cost <span className="font-medium text-foreground">{formatCost(processor.costPerRunUsd)}</span></p>
+              <p>Takes about {formatLatency(processor.latencySeconds)}</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onDiscard} disabled={launching}>
+              Discard
+            </Button>
+            {onRunBatch && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRunBatch({ ...draft, processor: processor.id })}
+                disabled={launching}
+                title="Run this brief once per entity in a list"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                Run for a List
+              </Button>
+            )}
+            <Button size="sm" onClick={handleLaunch} disabled={!canLaunch}>
+              {launching ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Launch Research
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TagListInput({
+  label,
+  values,
+  onChange,
+  disabled
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  disabled?: boolean;
+}) {
+  const [pending, setPending] = useState('');
+
+  const addValue = () => {
+    const value = pending.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setPending('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addValue();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-1">
+        {values.map((value) => (
+          <Badge key={value} variant="secondary" className="flex items-center gap-1 pr-1">
+            <span className="text-xs">{value}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(values.filter(v => v !== value))}
+              disabled={disabled}
+              className="h-4 w-4 p-0 hover:bg-destructive/20 hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </Badge>
+        ))}
+      </div>
+      <Input
+        value={pending}
+        onChange={(e) => setPending(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addValue}
+        placeholder="Type and press Enter"
+        disabled={disabled}
+        className="h-8 text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink } from 'lucide-react';
+import { humanizeFieldName, type CitationSource, type FieldBasis } from '@/lib/parallel';
+
+interface CitationsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sources: CitationSource[];
+  basis: FieldBasis[];
+  highlightedSource?: number | null;
+}
+
+export function CitationsPanel({ open, onOpenChange, sources, basis, highlightedSource }: CitationsPanelProps) {
+  const sourceRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  // Bring the footnote the user clicked into view
+  useEffect(() => {
+    if (open && highlightedSource) {
+      const timer = setTimeout(() => {
+        sourceRefs.current[highlightedSource]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [open, highlightedSource]);
+
+  const basisByField = Object.fromEntries(basis.map(entry => [entry.field, entry]));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Sources</SheetTitle>
+          <SheetDescription>
+            {sources.length} source{sources.length === 1 ? '' : 's'} cited by this research result
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 mt-4 -mr-4 pr-4">
+          <div className="space-y-4 pb-4">
+            {sources.map(source => (
+              <div
+                key={source.number}
+                ref={(el) => { sourceRefs.current[source.number] = el; }}
+                className={`rounded-lg border p-3 space-y-2 ${
+                  source.number === highlightedSource ? 'border-primary bg-primary/5' : 'border-border'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <Badge variant="outline" className="text-xs shrink-0">[{source.number}]</Badge>
+                  <div className="min-w-0">
+                    {source.title && <p className="text-sm font-medium">{source.title}</p>}
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-primary underline break-all inline-flex items-center gap-1"
+                    >
+                      {source.url}
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                  </div>
+                </div>
+
+                {source.excerpts.length > 0 && (
+                  <div className="space-y-1">
+                    {source.excerpts.map((excerpt, index) => (
+                      <blockquote key={index} className="border-l-2 border-muted pl-2 text-xs text-muted-foreground italic">
+                        {excerpt}
+                      </blockquote>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Supports</p>
+                  {source.fields.map(field => (
+                    <div key={field} className="text-xs">
+                      <span className="font-medium">{humanizeFieldName(field)}</span>
+                      {basisByField[field]?.confidence && (
+                        <Badge variant="secondary" className="ml-2 text-[10px] capitalize">
+                          {basisByField[field].confidence} confidence
+                        </Badge>
+                      )}
+                      {basisByField[field]?.reasoning && (
+                        <p className="text-muted-foreground mt-0.5">{basisByField[field].reasoning}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { HelpCircle, Loader2, X } from 'lucide-react';
+import type { ClarificationAnswer, MissingInformation } from '@/lib/gemini';
+
+interface ClarificationCardProps {
+  questions: MissingInformation[];
+  objective: string;
+  submitting?: boolean;
+  onSubmit: (answers: ClarificationAnswer[]) => void;
+  // Go straight to reviewing the brief as drafted
+  onSkip: () => void;
+  onDiscard: () => void;
+}
+
+export function ClarificationCard({
+  questions,
+  objective,
+  submitting = false,
+  onSubmit,
+  onSkip,
+  onDiscard,
+}: ClarificationCardProps) {
+  const [answers, setAnswers] = useState<string[]>(() => questions.map(() => ''));
+
+  useEffect(() => {
+    setAnswers(questions.map(() => ''));
+  }, [questions]);
+
+  const setAnswer = (index: number, answer: string) => {
+    setAnswers(prev => prev.map((current, i) => (i === index ? answer : current)));
+  };
+
+  const hasAnswers = answers.some(answer => answer.trim());
+
+  const handleSubmit = () => {
+    if (!hasAnswers || submitting) return;
+    onSubmit(
+      questions
+        .map((item, index) => ({ question: item.question, answer: answers[index].trim() }))
+        .filter(({ answer }) => answer)
+    );
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto border-primary/40">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <HelpCircle className="h-5 w-5 text-primary" />
+              A Few Questions First
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Narrowing these down makes the research more useful: {objective}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={submitting} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        {questions.map((item, index) => (
+          <div key={item.question} className="space-y-2">
+            <Label htmlFor={`clarification-${index}`}>{item.question}</Label>
+            {item.options.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {item.options.map(option => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={answers[index] === option ? 'default' : 'outline'}
+                    className="h-7 rounded-full px-3 text-xs"
+                    onClick={() => setAnswer(index, answers[index] === option ? '' : option)}
+                    disabled={submitting}
+                  >
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <Input
+              id={`clarification-${index}`}
+              value={answers[index] ?? ''}
+              onChange={(e) => setAnswer(index, e.target.value)}
+              placeholder="Or type your own answer"
+              disabled={submitting}
+            />
+          </div>
+        ))}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onSkip} disabled={submitting}>
+            Skip, review brief
+          </Button>
+          <Button onClick={handleSubmit} disabled={!hasAnswers || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Update Brief
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
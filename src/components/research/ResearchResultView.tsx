@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, BookOpen } from 'lucide-react';
+import { CitationsPanel } from './CitationsPanel';
+import {
+  buildSourceIndex,
+  fieldFootnotes,
+  formatScalar,
+  humanizeFieldName,
+  isResultObject,
+  normalizeBasis,
+  resolveFields,
+  tableColumns,
+  type JsonSchema,
+  type ResultObject,
+  type ResultValue,
+} from '@/lib/parallel';
+
+interface ResearchResultViewProps {
+  results: ResultObject;
+  schema?: JsonSchema;
+  basis?: unknown;
+}
+
+export function ResearchResultView({ results, schema, basis }: ResearchResultViewProps) {
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+
+  const fieldBasis = useMemo(() => normalizeBasis(basis), [basis]);
+  const sources = useMemo(() => buildSourceIndex(fieldBasis), [fieldBasis]);
+  const footnotes = useMemo(() => fieldFootnotes(sources), [sources]);
+
+  const fields = resolveFields(results, schema);
+
+  const openSource = (number: number | null) => {
+    setHighlightedSource(number);
+    setPanelOpen(true);
+  };
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">The research task returned no structured output.</p>;
+  }
+
+  return (
+    <div className="space-y-2 not-prose">
+      {sources.length > 0 && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => openSource(null)}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            Sources ({sources.length})
+          </Button>
+        </div>
+      )}
+
+      {fields.map(([key, fieldSchema]) => (
+        <ResultSection
+          key={key}
+          name={key}
+          value={results[key]}
+          schema={fieldSchema}
+          depth={0}
+          footnotes={footnotes[key]}
+          onFootnoteClick={openSource}
+        />
+      ))}
+
+      {sources.length > 0 && (
+        <CitationsPanel
+          open={panelOpen}
+          onOpenChange={setPanelOpen}
+          sources={sources}
+          basis={fieldBasis}
+          highlightedSource={highlightedSource}
+        />
+      )}
+    </div>
+  );
+}
+
+function ResultSection({
+  name,
+  value,
+  schema,
+  depth,
+  footnotes = [],
+  onFootnoteClick
+}: {
+  name: string;
+  value: ResultValue;
+  schema: JsonSchema;
+  depth: number;
+  footnotes?: number[];
+  onFootnoteClick?: (number: number) => void;
+}) {
+  const [open, setOpen] = useState(depth === 0);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border border-border">
+      <div className="flex items-center hover:bg-muted/50">
+        <CollapsibleTrigger className="flex flex-1 items-center gap-2 px-3 py-2 text-left text-sm font-medium">
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {humanizeFieldName(name)}
+          {Array.isArray(value) && (
+            <span className="text-xs text-muted-foreground font-normal">({value.length})</span>
+          )}
+        </CollapsibleTrigger>
+        {footnotes.length > 0 && (
+          <div className="flex gap-0.5 pr-3">
+            {footnotes.map(number => (
+              <button
+                key={number}
+                type="button"
+                onClick={() => onFootnoteClick?.(number)}
+                className="text-[10px] font-medium text-primary hover:underline align-super"
+                title={`View source ${number}`}
+              >
+                [{number}]
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <CollapsibleContent className="px-3 pb-3">
+        <ResultValueView value={value} schema={schema} depth={depth} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function ResultValueView({ value, schema, depth }: { value: ResultValue; schema: JsonSchema; depth: number }) {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return <p className="text-sm text-muted-foreground italic">None found.</p>;
+    }
+
+    const isObjectList = schema.items?.type === 'object' || value.some(isResultObject);
+    if (!isObjectList) {
+      return (
+        <ul className="list-disc pl-5 space-y-1 text-sm">
+          {value.map((item, index) => (
+            <li key={index}><ResultText text={formatScalar(item)} /></li>
+          ))}
+        </ul>
+      );
+    }
+
+    const columns = tableColumns(value, schema.items);
+    return (
+      <div className="overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead key={column}>{humanizeFieldName(column)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {value.map((row, index) => (
+              <TableRow key={index}>
+                {columns.map(column => (
+                  <TableCell key={column} className="align-top">
+                    <ResultText text={isResultObject(row) ? formatScalar(row[column]) : ''} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  }
+
+  if (isResultObject(value)) {
+    return (
+      <div className="space-y-2 pt-1">
+        {resolveFields(value, schema).map(([key, fieldSchema]) => (
+          <ResultSection key={key} name={key} value={value[key]} schema={fieldSchema} depth={depth + 1} />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-sm whitespace-pre-wrap leading-relaxed">
+      <ResultText text={formatScalar(value)} />
+    </p>
+  );
+}
+
+function ResultText({ text }: { text: string }) {
+  if (/^https?:\/\/\S+$/.test(text.trim())) {
+    return (
+      <a href={text.trim()} target="_blank" rel="noopener noreferrer" className="text-primary underline break-all">
+        {text.trim()}
+      </a>
+    );
+  }
+  return <>{text}</>;
+}
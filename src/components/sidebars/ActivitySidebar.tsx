@@ -15,11 +15,17 @@ import {
   Wifi,
   WifiOff,
   RefreshCw,
-  Trash2
+  Trash2,
+  Loader2,
+  Square
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { useTaskRuns } from '@/hooks/useTaskRuns';
+import { useToast } from '@/hooks/use-toast';
+import { UsageDashboard } from '@/components/usage/UsageDashboard';
 
 interface ActivitySidebarProps {
+  sessionId?: string | null;
   collapsed?: boolean;
 }
 
@@ -40,7 +46,10 @@ interface SystemStatus {
   activeRuns: number;
 }
 
-export function ActivitySidebar({ collapsed = false }: ActivitySidebarProps) {
+export function ActivitySidebar({ sessionId = null, collapsed = false }: ActivitySidebarProps) {
+  const { activeRuns, cancelRun } = useTaskRuns(sessionId);
+  const { toast } = useToast();
+  const [cancelingRunId, setCancelingRunId] = useState<string | null>(null);
   const [events, setEvents] = useState<ActivityEvent[]>([]);
   const [systemStatus, setSystemStatus] = useState<SystemStatus>({
     sseConnected: false,
@@ -83,10 +92,33 @@ export function ActivitySidebar({ collapsed = false }: ActivitySidebarProps) {
       sseConnected: true,
       webhookHealthy: true,
       lastActivity: mockEvents[0]?.timestamp || null,
-      activeRuns: 1
+      activeRuns: 0
     });
   }, []);
 
+  useEffect(() => {
+    setSystemStatus(prev => ({ ...prev, activeRuns: activeRuns.length }));
+  }, [activeRuns.length]);
+
+  const handleCancelRun = async (runId: string) => {
+    setCancelingRunId(runId);
+    try {
+      await cancelRun(runId);
+      toast({
+        title: 'Research canceled',
+        description: 'The research task was stopped.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Cancel failed',
+        description: error instanceof Error ? error.message : 'Could not cancel the research task',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelingRunId(null);
+    }
+  };
+
   if (collapsed) {
     return (
       <div className="h-full flex flex-col items-center py-4 gap-4">
@@ -193,13 +225,54 @@ export function ActivitySidebar({ collapsed = false }: ActivitySidebarProps) {
             </div>
           </CardContent>
         </Card>
+
+        {/* Active Runs */}
+        {activeRuns.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <h3 className="text-xs font-medium text-sidebar-foreground/70">Running Research</h3>
+            {activeRuns.map(run => {
+              const runId = run.parallel_run_id || run.run_id;
+              return (
+                <div
+                  key={run.id}
+                  className="flex items-center gap-2 p-2 rounded-lg bg-sidebar-accent/30 border border-sidebar-border/50"
+                >
+                  <Clock className="h-3 w-3 text-primary animate-pulse flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-sidebar-foreground truncate" title={run.brief_text}>
+                      {run.brief_text || runId}
+                    </p>
+                    <p className="text-xs text-sidebar-foreground/50">
+                      {run.status} · {run.processor} · {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCancelRun(runId)}
+                    disabled={cancelingRunId === runId}
+                    className="h-6 w-6 p-0 hover:bg-destructive/10 hover:text-destructive"
+                    title="Cancel research"
+                  >
+                    {cancelingRunId === runId ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Square className="h-3 w-3" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Activity Feed */}
       <div className="flex-1 overflow-hidden">
         <Tabs defaultValue="activity" className="h-full flex flex-col">
-          <TabsList className="mx-4 mt-4 grid w-auto grid-cols-2">
+          <TabsList className="mx-4 mt-4 grid w-auto grid-cols-3">
             <TabsTrigger value="activity" className="text-xs">Activity</TabsTrigger>
+            <TabsTrigger value="usage" className="text-xs">Usage</TabsTrigger>
             <TabsTrigger value="logs" className="text-xs">Logs</TabsTrigger>
           </TabsList>
           
@@ -258,6 +331,12 @@ export function ActivitySidebar({ collapsed = false }: ActivitySidebarProps) {
             </ScrollArea>
           </TabsContent>
           
+          <TabsContent value="usage" className="flex-1 overflow-hidden mt-4">
+            <ScrollArea className="h-full custom-scrollbar px-4">
+              <UsageDashboard />
+            </ScrollArea>
+          </TabsContent>
+
           <TabsContent value="logs" className="flex-1 overflow-hidden mt-4">
             <div className="px-4 pb-4 h-full">
               <div className="text-center py-8">
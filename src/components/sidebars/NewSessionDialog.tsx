@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { usePromptPresets } from '@/hooks/usePromptPresets';
+import { MAX_SYSTEM_INSTRUCTION_LENGTH } from '@/lib/gemini';
+
+export interface NewSessionOptions {
+  title?: string;
+  presetId?: string | null;
+}
+
+interface NewSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (options: NewSessionOptions) => Promise<void> | void;
+}
+
+const NO_PRESET = 'none';
+
+export function NewSessionDialog({ open, onOpenChange, onCreate }: NewSessionDialogProps) {
+  const { presets, createPreset, deletePreset } = usePromptPresets();
+  const [title, setTitle] = useState('');
+  const [presetId, setPresetId] = useState(NO_PRESET);
+  const [creating, setCreating] = useState(false);
+  const [editingPreset, setEditingPreset] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [presetInstruction, setPresetInstruction] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTitle('');
+      setPresetId(NO_PRESET);
+      setEditingPreset(false);
+    }
+  }, [open]);
+
+  const selectedPreset = presets.find(preset => preset.id === presetId);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await onCreate({
+        title: title.trim() || undefined,
+        presetId: presetId === NO_PRESET ? null : presetId,
+      });
+      onOpenChange(false);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim() || !presetInstruction.trim()) return;
+    setSavingPreset(true);
+    try {
+      const created = await createPreset({ name: presetName.trim(), instruction: presetInstruction.trim() });
+      setPresetId(created.id);
+      setEditingPreset(false);
+      setPresetName('');
+      setPresetInstruction('');
+    } catch {
+      // usePromptPresets logs the error; keep the form so nothing is lost
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset?.user_id) return;
+    try {
+      await deletePreset(selectedPreset.id);
+      setPresetId(NO_PRESET);
+    } catch {
+      // usePromptPresets logs the error
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Session</DialogTitle>
+          <DialogDescription>
+            Pick a persona to give the assistant a role and house style for this session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="session-title">Title</Label>
+            <Input
+              id="session-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="New Session"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Persona</Label>
+              {!editingPreset && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditingPreset(true)}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  New preset
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Select value={presetId} onValueChange={setPresetId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRESET}>Default assistant</SelectItem>
+                  {presets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}{preset.user_id ? '' : ' (built-in)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPreset?.user_id && (
+                <Button variant="ghost" size="sm" className="h-10 w-10 p-0" onClick={handleDeletePreset} title="Delete preset">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {selectedPreset && (
+              <p className="text-xs text-muted-foreground line-clamp-4">
+                {selectedPreset.description ? `${selectedPreset.description}. ` : ''}{selectedPreset.instruction}
+              </p>
+            )}
+          </div>
+
+          {editingPreset && (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              <Input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name, e.g. Pricing analyst"
+              />
+              <Textarea
+                value={presetInstruction}
+                maxLength={MAX_SYSTEM_INSTRUCTION_LENGTH}
+                onChange={(e) => setPresetInstruction(e.target.value)}
+                placeholder="How the assistant should behave: its role, domain and answer format."
+                className="min-h-[100px]"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditingPreset(false)} disabled={savingPreset}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSavePreset}
+                  disabled={savingPreset || !presetName.trim() || !presetInstruction.trim()}
+                >
+                  {savingPreset && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                  Save preset
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={creating}>
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useSessions, ChatSession } from '@/hooks/useSessions';
+import { NewSessionDialog, type NewSessionOptions } from './NewSessionDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -33,7 +34,7 @@ import { formatDistanceToNow } from 'date-fns';
 interface SessionsSidebarProps {
   currentSessionId: string | null;
   onSelectSession: (sessionId: string) => void;
-  onNewSession: () => void;
+  onNewSession: (options?: NewSessionOptions) => void;
   onDeleteSession?: (sessionId: string) => void;
   collapsed?: boolean;
 }
@@ -50,6 +51,7 @@ export function SessionsSidebar({
   const [signingOut, setSigningOut] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [newSessionOpen, setNewSessionOpen] = useState(false);
 
   const handleSignOut = async () => {
     setSigningOut(true);
@@ -76,7 +78,7 @@ export function SessionsSidebar({
     return (
       <div className="h-full flex flex-col items-center py-4 gap-4">
         <Button
-          onClick={onNewSession}
+          onClick={() => setNewSessionOpen(true)}
           size="sm"
           className="h-10 w-10 p-0"
           title="New Session"
@@ -121,6 +123,8 @@ export function SessionsSidebar({
             )}
           </Button>
         </div>
+
+        <NewSessionDialog open={newSessionOpen} onOpenChange={setNewSessionOpen} onCreate={onNewSession} />
       </div>
     );
   }
@@ -130,7 +134,7 @@ export function SessionsSidebar({
       {/* Header */}
       <div className="p-4 border-b border-sidebar-border">
         <Button 
-          onClick={onNewSession} 
+          onClick={() => setNewSessionOpen(true)} 
           className="w-full mb-4"
           size="sm"
         >
@@ -221,6 +225,8 @@ export function SessionsSidebar({
         </div>
       </div>
 
+      <NewSessionDialog open={newSessionOpen} onOpenChange={setNewSessionOpen} onCreate={onNewSession} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
         <AlertDialogContent>
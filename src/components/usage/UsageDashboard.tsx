@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Loader2, RefreshCw, Wallet } from 'lucide-react';
+import { useUsage } from '@/hooks/useUsage';
+import { useToast } from '@/hooks/use-toast';
+import { formatUsd, groupUsageByDay, periodStart, type BudgetLimits, type UsageEntry } from '@/lib/usage';
+
+const CHART_DAYS = 14;
+
+const chartConfig = {
+  llm: { label: 'Chat', color: 'hsl(var(--primary))' },
+  research: { label: 'Research', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+function spentSince(entries: UsageEntry[], since: Date): number {
+  return entries
+    .filter(entry => new Date(entry.created_at) >= since)
+    .reduce((total, entry) => total + (Number(entry.cost_usd) || 0), 0);
+}
+
+function parseLimit(value: string): number | null {
+  const limit = Number(value);
+  return value.trim() && Number.isFinite(limit) && limit >= 0 ? limit : null;
+}
+
+export function UsageDashboard() {
+  const { entries, budget, teamBudgets, invitations, loading, saveBudget, respondToInvitation, refreshUsage } = useUsage();
+  const { toast } = useToast();
+  const [daily, setDaily] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDaily(budget?.daily_limit_usd?.toString() ?? '');
+    setMonthly(budget?.monthly_limit_usd?.toString() ?? '');
+  }, [budget]);
+
+  const today = spentSince(entries, periodStart('daily'));
+  const thisMonth = spentSince(entries, periodStart('monthly'));
+  const days = groupUsageByDay(entries, CHART_DAYS);
+
+  const handleInvitation = async (teamId: string, accept: boolean) => {
+    try {
+      await respondToInvitation(teamId, accept);
+      toast({ title: accept ? 'Joined team' : 'Invitation declined' });
+    } catch (error) {
+      toast({ title: 'Could not answer invitation', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleSave = async () => {
+    const limits: BudgetLimits = { daily_limit_usd: parseLimit(daily), monthly_limit_usd: parseLimit(monthly) };
+    setSaving(true);
+    try {
+      await saveBudget(limits);
+      toast({ title: 'Budget saved' });
+    } catch (error) {
+      toast({ title: 'Could not save budget', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-sidebar-foreground/50" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5 pb-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium text-sidebar-foreground/70 flex items-center gap-1">
+          <Wallet className="h-3 w-3" />
+          Estimated spend
+        </h3>
+        <Button variant="ghost" size="sm" onClick={refreshUsage} className="h-6 w-6 p-0" title="Refresh">
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <SpendMeter label="Today" spent={today} limit={budget?.daily_limit_usd ?? null} />
+      <SpendMeter label="This month" spent={thisMonth} limit={budget?.monthly_limit_usd ?? null} />
+
+      <ChartContainer config={chartConfig} className="h-40 w-full">
+        <BarChart data={days} margin={{ left: -16, right: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+          <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `$${value}`} />
+          <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatUsd(Number(value))}`} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="llm" stackId="spend" fill="var(--color-llm)" />
+          <Bar dataKey="research" stackId="spend" fill="var(--color-research)" radius={[2, 2, 0, 0]} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="space-y-3">
+        <h3 className="text-xs font-medium text-sidebar-foreground/70">Your budget (USD)</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="budget-daily" className="text-xs">Daily</Label>
+            <Input
+              id="budget-daily"
+              type="number"
+              min={0}
+              step="0.5"
+              value={daily}
+              onChange={(e) => setDaily(e.target.value)}
+              placeholder="No limit"
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="budget-monthly" className="text-xs">Monthly</Label>
+            <Input
+              id="budget-monthly"
+              type="number"
+              min={0}
+              step="1"
+              value={monthly}
+              onChange={(e) => setMonthly(e.target.value)}
+              placeholder="No limit"
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Save budget
+        </Button>
+        <p className="text-xs text-sidebar-foreground/50">
+          Chat and research are refused once a limit is reached. Your budget can only be stricter than the limits set for this deployment. Budgets reset at midnight UTC and on the 1st of the month.
+        </p>
+      </div>
+
+      {invitations.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium text-sidebar-foreground/70">Team invitations</h3>
+          {invitations.map(invitation => (
+            <div key={invitation.team_id} className="text-xs text-sidebar-foreground flex items-center justify-between gap-2">
+              <span className="truncate">{invitation.team_name}</span>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => handleInvitation(invitation.team_id, false)}>
+                  Decline
+                </Button>
+                <Button size="sm" className="h-6 px-2 text-xs" onClick={() => handleInvitation(invitation.team_id, true)}>
+                  Join
+                </Button>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-sidebar-foreground/50">
+            Joining adds the team's budget to yours: your spend counts towards it.
+          </p>
+        </div>
+      )}
+
+      {teamBudgets.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium text-sidebar-foreground/70">Team budgets</h3>
+          {teamBudgets.map(team => (
+            <div key={team.team_id} className="text-xs text-sidebar-foreground flex justify-between">
+              <span className="truncate">{team.team_name}</span>
+              <span className="text-sidebar-foreground/60">
+                {team.daily_limit_usd !== null ? `${formatUsd(team.daily_limit_usd)}/day` : ''}
+                {team.daily_limit_usd !== null && team.monthly_limit_usd !== null ? ' · ' : ''}
+                {team.monthly_limit_usd !== null ? `${formatUsd(team.monthly_limit_usd)}/month` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SpendMeter({ label, spent, limit }: { label: string; spent: number; limit: number | null }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-sidebar-foreground/70">{label}</span>
+        <span className="text-sidebar-foreground">
+          {formatUsd(spent)}{limit !== null ? ` of ${formatUsd(limit)}` : ''}
+        </span>
+      </div>
+      {limit !== null && <Progress value={limit > 0 ? Math.min((spent / limit) * 100, 100) : 100} className="h-1.5" />}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { buildBranchPath, latestLeafFrom, resolveLeafId } from '@/lib/history';
 
 export interface Message {
   id: string;
@@ -8,12 +9,15 @@ export interface Message {
   role: 'user' | 'assistant' | 'research' | 'research_progress' | 'system' | 'webhook';
   content: string;
   metadata: Record<string, any>;
+  parent_message_id: string | null;
   created_at: string;
 }
 
 export function useMessages(sessionId: string | null) {
   const { user, isTestMode } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
+  // Leaf of the branch being shown; chat_sessions.active_leaf_id on the server
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   // ------- Test Mode helpers (localStorage-backed) -------
@@ -45,20 +49,32 @@ export function useMessages(sessionId: string | null) {
     if (isTestMode) {
       const map = loadTestMessages();
       const list = (map[sessionId] || []).slice().sort((a, b) => (a.created_at > b.created_at ? 1 : -1));
-      setMessages(list);
+      // Messages saved before branching existed form a single chain
+      setMessages(list.map((message, index) => message.parent_message_id === undefined
+        ? { ...message, parent_message_id: index > 0 ? list[index - 1].id : null }
+        : message));
       setLoading(false);
       return;
     }
 
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('created_at', { ascending: true });
+      const [{ data, error }, { data: session, error: sessionError }] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('chat_sessions')
+          .select('active_leaf_id')
+          .eq('id', sessionId)
+          .single(),
+      ]);
 
       if (error) throw error;
+      if (sessionError) throw sessionError;
       setMessages((data || []) as Message[]);
+      setActiveLeafId(session?.active_leaf_id ?? null);
     } catch (error) {
       console.error('Error fetching messages:', error);
       setMessages([]);
@@ -87,7 +103,14 @@ export function useMessages(sessionId: string | null) {
         },
         (payload) => {
           console.log('New message received:', payload);
-          setMessages(prev => [...prev, payload.new as Message]);
+          const newMessage = payload.new as Message;
+          // The row may already be there if the list was refreshed after the insert
+          setMessages(prev => prev.some(msg => msg.id === newMessage.id) ? prev : [...prev, newMessage]);
+          // Mirrors the advance_active_leaf trigger: a user message always becomes the active
+          // leaf, anything else only when it continues the branch being shown
+          setActiveLeafId(prev => newMessage.role === 'user' || prev === newMessage.parent_message_id
+            ? newMessage.id
+            : prev);
         }
       )
       .on(
@@ -114,10 +137,12 @@ export function useMessages(sessionId: string | null) {
     };
   }, [sessionId, isTestMode]);
 
+  // parentMessageId defaults to the active leaf; pass it to start a branch elsewhere
   const addMessage = async (
     role: Message['role'],
     content: string,
-    metadata: Record<string, any> = {}
+    metadata: Record<string, any> = {},
+    parentMessageId?: string | null
   ) => {
     if (!sessionId || !user) throw new Error('Session or user not available');
 
@@ -130,6 +155,7 @@ export function useMessages(sessionId: string | null) {
         role,
         content,
         metadata,
+        parent_message_id: parentMessageId !== undefined ? parentMessageId : resolveLeafId(messages, activeLeafId),
         created_at: now,
       };
       const map = loadTestMessages();
@@ -138,6 +164,7 @@ export function useMessages(sessionId: string | null) {
       map[sessionId] = next;
       saveTestMessages(map);
       setMessages(next);
+      setActiveLeafId(newMsg.id);
       return newMsg;
     }
 
@@ -149,6 +176,7 @@ export function useMessages(sessionId: string | null) {
           role,
           content,
           metadata,
+          ...(parentMessageId !== undefined ? { parent_message_id: parentMessageId } : {}),
         })
         .select()
         .single();
@@ -161,11 +189,15 @@ export function useMessages(sessionId: string | null) {
     }
   };
 
-  const updateMessage = async (messageId: string, content: string) => {
+  const updateMessage = async (
+    messageId: string,
+    content: string,
+    metadata?: Message['metadata']
+  ) => {
     try {
       const { error } = await supabase
         .from('messages')
-        .update({ content })
+        .update(metadata ? { content, metadata } : { content })
         .eq('id', messageId);
 
       if (error) throw error;
@@ -175,8 +207,36 @@ export function useMessages(sessionId: string | null) {
     }
   };
 
+  // Show the branch that was last continued below messageId
+  const selectBranch = async (messageId: string) => {
+    const leafId = latestLeafFrom(messages, messageId);
+    setActiveLeafId(leafId);
+
+    if (isTestMode || !sessionId) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update({ active_leaf_id: leafId })
+        .eq('id', sessionId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      throw error;
+    }
+  };
+
+  const branchMessages = useMemo(
+    () => buildBranchPath(messages, resolveLeafId(messages, activeLeafId)),
+    [messages, activeLeafId]
+  );
+
   return {
     messages,
+    branchMessages,
+    activeLeafId,
+    selectBranch,
     loading,
     addMessage,
     updateMessage,
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface PromptPreset {
+  id: string;
+  // null for the built-in presets everyone can use
+  user_id: string | null;
+  name: string;
+  description: string | null;
+  instruction: string;
+  created_at: string;
+}
+
+export function usePromptPresets() {
+  const { user, isTestMode } = useAuth();
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPresets = async () => {
+    // Test Mode never calls the model, so presets would have no effect
+    if (!user || isTestMode) {
+      setPresets([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('system_prompt_presets')
+        .select('id, user_id, name, description, instruction, created_at')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      // Built-in presets first, then the user's own
+      setPresets(((data || []) as PromptPreset[]).sort((a, b) => Number(!!a.user_id) - Number(!!b.user_id)));
+    } catch (error) {
+      console.error('Error fetching prompt presets:', error);
+      setPresets([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPresets();
+  }, [user, isTestMode]);
+
+  const createPreset = async (preset: Pick<PromptPreset, 'name' | 'instruction'> & { description?: string }) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data, error } = await supabase
+        .from('system_prompt_presets')
+        .insert({
+          user_id: user.id,
+          name: preset.name,
+          description: preset.description || null,
+          instruction: preset.instruction,
+        })
+        .select('id, user_id, name, description, instruction, created_at')
+        .single();
+
+      if (error) throw error;
+      await fetchPresets();
+      return data as PromptPreset;
+    } catch (error) {
+      console.error('Error creating prompt preset:', error);
+      throw error;
+    }
+  };
+
+  const deletePreset = async (presetId: string) => {
+    try {
+      const { error } = await supabase
+        .from('system_prompt_presets')
+        .delete()
+        .eq('id', presetId);
+
+      if (error) throw error;
+      setPresets(prev => prev.filter(preset => preset.id !== presetId));
+    } catch (error) {
+      console.error('Error deleting prompt preset:', error);
+      throw error;
+    }
+  };
+
+  return {
+    presets,
+    loading,
+    createPreset,
+    deletePreset,
+    refreshPresets: fetchPresets,
+  };
+}
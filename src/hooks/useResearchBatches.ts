@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { functionHeaders } from '@/lib/edge-functions';
+import type { ResearchBrief } from '@/lib/gemini';
+import {
+  buildBatchResultsCsv,
+  type BatchItemResult,
+  type BatchItemStatus,
+  type BatchStatus,
+} from '@/lib/research-batch';
+import type { ResultObject } from '@/lib/parallel';
+import { useAuth } from './useAuth';
+
+export interface ResearchBatch {
+  id: string;
+  session_id: string;
+  name: string;
+  processor: string;
+  concurrency: number;
+  status: BatchStatus;
+  status_reason: string | null;
+  created_at: string;
+  completed_at: string | null;
+  // Row counts by status
+  counts: Record<BatchItemStatus, number>;
+  total: number;
+}
+
+export interface CreateBatchInput {
+  name?: string;
+  brief: ResearchBrief;
+  entities: string[];
+  concurrency?: number;
+}
+
+const EMPTY_COUNTS: Record<BatchItemStatus, number> = {
+  pending: 0,
+  queued: 0,
+  running: 0,
+  completed: 0,
+  failed: 0,
+  canceled: 0,
+};
+
+async function callBatchFunction(body: Record<string, unknown>) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-batch`, {
+    method: 'POST',
+    headers: await functionHeaders(),
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.error) {
+    throw new Error(result.error || 'Batch request failed');
+  }
+  return result;
+}
+
+export function useResearchBatches(sessionId: string | null) {
+  const { user, isTestMode } = useAuth();
+  const [batches, setBatches] = useState<ResearchBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchBatches = async () => {
+    // Test Mode never reaches Parallel, so there are no batches to track
+    if (!sessionId || !user || isTestMode) {
+      setBatches([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('research_batches')
+        .select('id, session_id, name, processor, concurrency, status, status_reason, created_at, completed_at, research_batch_items(status)')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setBatches((data || []).map(({ research_batch_items: items, ...batch }) => {
+        const counts = { ...EMPTY_COUNTS };
+        for (const item of items || []) {
+          counts[item.status as BatchItemStatus]++;
+        }
+        return { ...batch, status: batch.status as BatchStatus, counts, total: items?.length ?? 0 };
+      }));
+    } catch (error) {
+      console.error('Error fetching research batches:', error);
+      setBatches([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBatches();
+  }, [sessionId, user, isTestMode]);
+
+  // Only rows of unfinished batches still change. Realtime can't filter rows by session, so
+  // they are filtered by batch id (at most 100 values per filter); a new batch shows up
+  // through research_batches, which resubscribes with its id included.
+  const watchedBatchIds = batches
+    .filter(batch => batch.status === 'running' || batch.status === 'paused')
+    .map(batch => batch.id)
+    .slice(0, 100)
+    .join(',');
+
+  // A batch's rows change in bursts, so refetch once per burst rather than once per row
+  useEffect(() => {
+    if (!sessionId || isTestMode) return;
+
+    const scheduleRefetch = () => {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current);
+      refetchTimer.current = setTimeout(fetchBatches, 500);
+    };
+
+    const channel = supabase
+      .channel(`research_batches_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'research_batches', filter: `session_id=eq.${sessionId}` },
+        scheduleRefetch
+      );
+
+    if (watchedBatchIds) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'research_batch_items', filter: `batch_id=in.(${watchedBatchIds})` },
+        scheduleRefetch
+      );
+    }
+    channel.subscribe();
+
+    return () => {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current);
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, isTestMode, watchedBatchIds]);
+
+  const createBatch = async (input: CreateBatchInput) => {
+    if (!sessionId) throw new Error('No session selected');
+    const result = await callBatchFunction({ action: 'create', sessionId, ...input });
+    await fetchBatches();
+    return result as { batch_id: string; total: number };
+  };
+
+  const cancelBatch = async (batchId: string) => {
+    await callBatchFunction({ action: 'cancel', batchId });
+    await fetchBatches();
+  };
+
+  const resumeBatch = async (batchId: string) => {
+    await callBatchFunction({ action: 'resume', batchId });
+    await fetchBatches();
+  };
+
+  // Merged results, one row per entity, as a CSV download
+  const downloadResults = async (batch: ResearchBatch) => {
+    const { data, error } = await supabase
+      .from('research_batch_items')
+      .select('entity, status, result, error')
+      .eq('batch_id', batch.id)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+
+    const items: BatchItemResult[] = (data || []).map(item => ({
+      entity: item.entity,
+      status: item.status as BatchItemStatus,
+      result: item.result as ResultObject | null,
+      error: item.error,
+    }));
+
+    const blob = new Blob([buildBatchResultsCsv(items)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${batch.name.replace(/[^\w-]+/g, '_').slice(0, 60) || 'batch'}-results.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return {
+    batches,
+    loading,
+    createBatch,
+    cancelBatch,
+    resumeBatch,
+    downloadResults,
+    refreshBatches: fetchBatches,
+  };
+}
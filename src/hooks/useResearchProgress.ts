@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { FieldBasis } from '@/lib/parallel';
+import { getAccessToken } from '@/lib/edge-functions';
 
 interface LiveUpdate {
   id: string;
@@ -11,19 +13,17 @@ interface LiveUpdate {
 
 interface ResearchResult {
   output: {
+    type?: 'json' | 'text';
     content: any;
-    basis?: any;
+    basis?: FieldBasis[];
   };
   status: string;
   run_id: string;
-  created_at: string;
-  completed_at?: string;
-  processor: string;
-  warnings?: any[];
-  error?: any;
+  completed_at?: string | null;
+  cached?: boolean;
 }
 
-type ResearchStatus = 'idle' | 'running_filling' | 'running_full_waiting' | 'completed' | 'failed';
+type ResearchStatus = 'idle' | 'running_filling' | 'running_full_waiting' | 'completed' | 'failed' | 'canceled';
 
 interface UseResearchProgressReturn {
   progress: number;
@@ -54,7 +54,7 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
   const startTime = useRef<number>(Date.now());
   const isCompleteRef = useRef(false);
 
-  const isComplete = status === 'completed' || status === 'failed';
+  const isComplete = status === 'completed' || status === 'failed' || status === 'canceled';
 
   // Linear progress fill over 10 minutes
   const updateProgress = useCallback(() => {
@@ -98,20 +98,17 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
     }, 16); // ~60fps
   }, [progress]);
 
-  // Fetch final result
+  // Fetch final result through research-result so the Parallel API key stays server-side
   const fetchResult = useCallback(async () => {
     try {
-      const response = await fetch(`https://api.parallel.ai/v1/tasks/runs/${runId}/result`, {
-        headers: {
-          'x-api-key': import.meta.env.VITE_PARALLEL_API_KEY || '',
-        },
+      const { data: resultData, error: invokeError } = await supabase.functions.invoke('research-result', {
+        body: { runId },
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch result: ${response.status}`);
+      if (invokeError || resultData?.error) {
+        throw new Error(resultData?.error || invokeError?.message || 'Failed to fetch result');
       }
 
-      const resultData = await response.json();
       setResult(resultData);
       snapToComplete('completed');
       
@@ -129,12 +126,15 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
   }, [runId, snapToComplete]);
 
   // Setup SSE connection
-  const setupSSE = useCallback(() => {
+  const setupSSE = useCallback(async () => {
     if (eventSource.current) return;
 
-    const sseUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-stream/${runId}`;
-    
     try {
+      // EventSource can't send headers, so research-stream takes the token as a query parameter
+      const accessToken = await getAccessToken();
+      if (eventSource.current || isCompleteRef.current) return;
+
+      const sseUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-stream/${runId}?access_token=${encodeURIComponent(accessToken)}`;
       eventSource.current = new EventSource(sseUrl);
       setHasSSE(true);
       
@@ -192,6 +192,26 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
     }
   }, [runId, fetchResult]);
 
+  // Stop local tracking once the run was canceled upstream
+  const markCanceled = useCallback(() => {
+    isCompleteRef.current = true;
+
+    if (progressInterval.current) {
+      clearInterval(progressInterval.current);
+      progressInterval.current = null;
+    }
+
+    if (eventSource.current) {
+      eventSource.current.close();
+      eventSource.current = null;
+    }
+
+    setStatus('canceled');
+
+    // Analytics
+    console.log('research_ui_run_canceled', { run_id: runId });
+  }, [runId]);
+
   // Setup webhook subscription
   const setupWebhookSubscription = useCallback(() => {
     if (webhookSubscription.current) return;
@@ -211,6 +231,11 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
           console.log('Webhook received:', payload);
           
           const newData = payload.new as any;
+          if (newData.status === 'canceled') {
+            markCanceled();
+            return;
+          }
+
           if (newData.status === 'completed' || newData.status === 'failed') {
             if (newData.result) {
               // Parse result if it's a string
@@ -223,7 +248,8 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
                 }
               }
               
-              setResult(parsedResult);
+              // task_runs.result holds only the Parallel output
+              setResult({ run_id: runId, status: newData.status, completed_at: newData.completed_at, output: parsedResult });
               snapToComplete(newData.status === 'completed' ? 'completed' : 'failed');
             } else {
               // Fetch result from API
@@ -233,7 +259,7 @@ export function useResearchProgress(runId: string): UseResearchProgressReturn {
         }
       )
       .subscribe();
-  }, [runId, snapToComplete, fetchResult]);
+  }, [runId, snapToComplete, fetchResult, markCanceled]);
 
   // Start progress tracking
   const startProgress = useCallback(() => {
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionModelSettings } from '@/lib/gemini';
 
 export interface ChatSession {
   id: string;
@@ -10,6 +12,9 @@ export interface ChatSession {
   created_at: string;
   updated_at: string;
   last_activity: string;
+  model_settings?: SessionModelSettings;
+  // System prompt preset (persona) applied to the session's replies
+  preset_id?: string | null;
 }
 
 export function useSessions() {
@@ -85,7 +90,7 @@ export function useSessions() {
     fetchSessions();
   }, [user, isTestMode]);
 
-  const createSession = async (title: string = 'New Session') => {
+  const createSession = async (title: string = 'New Session', presetId: string | null = null) => {
     if (!user) throw new Error('User not authenticated');
 
     // Test Mode: create locally
@@ -104,6 +109,7 @@ export function useSessions() {
         .insert({
           title,
           user_id: user.id,
+          preset_id: presetId,
         })
         .select()
         .single();
@@ -169,6 +175,35 @@ export function useSessions() {
     }
   };
 
+  const updateModelSettings = async (sessionId: string, model_settings: SessionModelSettings) => {
+    // Test Mode
+    if (isTestMode) {
+      const list = loadTestSessions();
+      const next: ChatSession[] = list.map(s => (s.id === sessionId ? { ...s, model_settings, updated_at: new Date().toISOString() } : s));
+      saveTestSessions(next);
+      setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, model_settings } : s)));
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update({ model_settings: model_settings as Json })
+        .eq('id', sessionId);
+
+      if (error) throw error;
+
+      setSessions(prev =>
+        prev.map(session =>
+          session.id === sessionId ? { ...session, model_settings } : session
+        )
+      );
+    } catch (error) {
+      console.error('Error updating model settings:', error);
+      throw error;
+    }
+  };
+
   const archiveSession = async (sessionId: string) => {
     // Test Mode
     if (isTestMode) {
@@ -200,6 +235,7 @@ export function useSessions() {
     createSession,
     updateSessionTitle,
     updateLastActivity,
+    updateModelSettings,
     archiveSession,
     refreshSessions: fetchSessions,
   };
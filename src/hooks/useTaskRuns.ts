@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { functionHeaders } from '@/lib/edge-functions';
+
+export interface TaskRun {
+  id: string;
+  session_id: string;
+  run_id: string;
+  parallel_run_id: string | null;
+  brief_text: string;
+  processor: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'canceled';
+  created_at: string;
+  completed_at: string | null;
+}
+
+export const ACTIVE_TASK_STATUSES: TaskRun['status'][] = ['queued', 'running'];
+
+export function useTaskRuns(sessionId: string | null) {
+  const { user, isTestMode } = useAuth();
+  const [taskRuns, setTaskRuns] = useState<TaskRun[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTaskRuns = async () => {
+    // Test Mode never reaches Parallel, so there are no runs to track
+    if (!sessionId || !user || isTestMode) {
+      setTaskRuns([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('task_runs')
+        .select('id, session_id, run_id, parallel_run_id, brief_text, processor, status, created_at, completed_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setTaskRuns((data || []) as TaskRun[]);
+    } catch (error) {
+      console.error('Error fetching task runs:', error);
+      setTaskRuns([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaskRuns();
+  }, [sessionId, user, isTestMode]);
+
+  // Real-time subscription
+  useEffect(() => {
+    if (!sessionId || isTestMode) return;
+
+    const channel = supabase
+      .channel(`task_runs_${sessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_runs',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        () => {
+          fetchTaskRuns();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, isTestMode]);
+
+  const cancelRun = async (runId: string) => {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/research-cancel`, {
+      method: 'POST',
+      headers: await functionHeaders(),
+      body: JSON.stringify({ runId }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || result.error) {
+      throw new Error(result.error || 'Failed to cancel research task');
+    }
+
+    // A run that finished before the cancel landed keeps the status it finished with
+    setTaskRuns(prev =>
+      prev.map(run => (run.parallel_run_id === runId ? { ...run, status: result.status } : run))
+    );
+    return result;
+  };
+
+  return {
+    taskRuns,
+    activeRuns: taskRuns.filter(run => ACTIVE_TASK_STATUSES.includes(run.status)),
+    loading,
+    cancelRun,
+    refreshTaskRuns: fetchTaskRuns,
+  };
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { periodStart, type BudgetLimits, type UsageEntry } from '@/lib/usage';
+import { useAuth } from './useAuth';
+
+export interface TeamBudget extends BudgetLimits {
+  team_id: string;
+  team_name: string;
+}
+
+// A team owner's invitation; the team's budget only applies once it is accepted
+export interface TeamInvitation {
+  team_id: string;
+  team_name: string;
+}
+
+// Enough history for the dashboard chart and the current month's total
+export const USAGE_HISTORY_DAYS = 31;
+
+export function useUsage() {
+  const { user, isTestMode } = useAuth();
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [budget, setBudget] = useState<BudgetLimits | null>(null);
+  const [teamBudgets, setTeamBudgets] = useState<TeamBudget[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsage = async () => {
+    // Test Mode never calls the model or Parallel, so there is nothing to show
+    if (!user || isTestMode) {
+      setEntries([]);
+      setBudget(null);
+      setTeamBudgets([]);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const since = new Date(
+        Math.min(
+          periodStart('daily').getTime() - (USAGE_HISTORY_DAYS - 1) * 86_400_000,
+          periodStart('monthly').getTime()
+        )
+      );
+
+      const [ledger, budgets, invites] = await Promise.all([
+        supabase
+          .from('usage_ledger')
+          .select('kind, provider, model, prompt_tokens, completion_tokens, processor, run_id, cost_usd, created_at')
+          .gte('created_at', since.toISOString())
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('usage_budgets')
+          .select('user_id, team_id, daily_limit_usd, monthly_limit_usd, teams(name)'),
+        supabase
+          .from('team_members')
+          .select('team_id, teams(name)')
+          .eq('user_id', user.id)
+          .is('accepted_at', null),
+      ]);
+
+      if (ledger.error) throw ledger.error;
+      if (budgets.error) throw budgets.error;
+      if (invites.error) throw invites.error;
+
+      setEntries((ledger.data || []) as UsageEntry[]);
+      const rows = budgets.data || [];
+      const own = rows.find(row => row.user_id === user.id);
+      setBudget(own ? { daily_limit_usd: own.daily_limit_usd, monthly_limit_usd: own.monthly_limit_usd } : null);
+      setTeamBudgets(rows
+        .filter(row => row.team_id)
+        .map(row => ({
+          team_id: row.team_id!,
+          team_name: row.teams?.name ?? 'Team',
+          daily_limit_usd: row.daily_limit_usd,
+          monthly_limit_usd: row.monthly_limit_usd,
+        })));
+      setInvitations((invites.data || []).map(row => ({
+        team_id: row.team_id,
+        team_name: row.teams?.name ?? 'Team',
+      })));
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, [user, isTestMode]);
+
+  const saveBudget = async (limits: BudgetLimits) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('usage_budgets')
+        .upsert({ user_id: user.id, ...limits }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      setBudget(limits);
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      throw error;
+    }
+  };
+
+  const respondToInvitation = async (teamId: string, accept: boolean) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = accept
+        ? await supabase
+          .from('team_members')
+          .update({ accepted_at: new Date().toISOString() })
+          .eq('team_id', teamId)
+          .eq('user_id', user.id)
+        : await supabase
+          .from('team_members')
+          .delete()
+          .eq('team_id', teamId)
+          .eq('user_id', user.id);
+
+      if (error) throw error;
+      // Accepting brings in the team's budget
+      await fetchUsage();
+    } catch (error) {
+      console.error('Error answering team invitation:', error);
+      throw error;
+    }
+  };
+
+  return {
+    entries,
+    budget,
+    teamBudgets,
+    invitations,
+    loading,
+    saveBudget,
+    respondToInvitation,
+    refreshUsage: fetchUsage,
+  };
+}
@@ -16,33 +16,73 @@ export type Database = {
     Tables: {
       chat_sessions: {
         Row: {
+          active_leaf_id: string | null
           created_at: string
+          history_summary: string | null
+          history_summary_through: string | null
+          history_summary_updated_at: string | null
           id: string
           last_activity: string
+          model_settings: Json
+          preset_id: string | null
           status: string
           title: string
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          active_leaf_id?: string | null
           created_at?: string
+          history_summary?: string | null
+          history_summary_through?: string | null
+          history_summary_updated_at?: string | null
           id?: string
           last_activity?: string
+          model_settings?: Json
+          preset_id?: string | null
           status?: string
           title?: string
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          active_leaf_id?: string | null
           created_at?: string
+          history_summary?: string | null
+          history_summary_through?: string | null
+          history_summary_updated_at?: string | null
           id?: string
           last_activity?: string
+          model_settings?: Json
+          preset_id?: string | null
           status?: string
           title?: string
           updated_at?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chat_sessions_active_leaf_id_fkey"
+            columns: ["active_leaf_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_sessions_history_summary_through_fkey"
+            columns: ["history_summary_through"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_sessions_preset_id_fkey"
+            columns: ["preset_id"]
+            isOneToOne: false
+            referencedRelation: "system_prompt_presets"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       demo_users: {
         Row: {
@@ -65,6 +105,7 @@ export type Database = {
           created_at: string
           id: string
           metadata: Json | null
+          parent_message_id: string | null
           role: string
           session_id: string
         }
@@ -73,6 +114,7 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          parent_message_id?: string | null
           role: string
           session_id: string
         }
@@ -81,10 +123,18 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          parent_message_id?: string | null
           role?: string
           session_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_session_id_fkey"
             columns: ["session_id"]
@@ -94,44 +144,215 @@ export type Database = {
           },
         ]
       }
+      research_batch_items: {
+        Row: {
+          batch_id: string
+          completed_at: string | null
+          created_at: string
+          entity: string
+          error: string | null
+          id: string
+          position: number
+          result: Json | null
+          run_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          completed_at?: string | null
+          created_at?: string
+          entity: string
+          error?: string | null
+          id?: string
+          position: number
+          result?: Json | null
+          run_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          completed_at?: string | null
+          created_at?: string
+          entity?: string
+          error?: string | null
+          id?: string
+          position?: number
+          result?: Json | null
+          run_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "research_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_batches: {
+        Row: {
+          brief: Json
+          completed_at: string | null
+          concurrency: number
+          created_at: string
+          id: string
+          last_reconciled_at: string | null
+          name: string
+          parent_message_id: string | null
+          processor: string
+          reconcile_attempts: number
+          session_id: string
+          status: string
+          status_reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          brief: Json
+          completed_at?: string | null
+          concurrency?: number
+          created_at?: string
+          id?: string
+          last_reconciled_at?: string | null
+          name: string
+          parent_message_id?: string | null
+          processor?: string
+          reconcile_attempts?: number
+          session_id: string
+          status?: string
+          status_reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          brief?: Json
+          completed_at?: string | null
+          concurrency?: number
+          created_at?: string
+          id?: string
+          last_reconciled_at?: string | null
+          name?: string
+          parent_message_id?: string | null
+          processor?: string
+          reconcile_attempts?: number
+          session_id?: string
+          status?: string
+          status_reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_batches_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "research_batches_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      system_prompt_presets: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          instruction: string
+          name: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          instruction: string
+          name: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          instruction?: string
+          name?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       task_runs: {
         Row: {
+          basis: Json
           brief_text: string
           completed_at: string | null
           created_at: string
           id: string
+          last_reconciled_at: string | null
+          launch_message_id: string | null
           metadata: Json | null
           parallel_run_id: string | null
+          processor: string
+          reconcile_attempts: number
           result: string | null
           run_id: string
           session_id: string
           status: string
         }
         Insert: {
+          basis?: Json
           brief_text: string
           completed_at?: string | null
           created_at?: string
           id?: string
+          last_reconciled_at?: string | null
+          launch_message_id?: string | null
           metadata?: Json | null
           parallel_run_id?: string | null
+          processor?: string
+          reconcile_attempts?: number
           result?: string | null
           run_id: string
           session_id: string
           status?: string
         }
         Update: {
+          basis?: Json
           brief_text?: string
           completed_at?: string | null
           created_at?: string
           id?: string
+          last_reconciled_at?: string | null
+          launch_message_id?: string | null
           metadata?: Json | null
           parallel_run_id?: string | null
+          processor?: string
+          reconcile_attempts?: number
           result?: string | null
           run_id?: string
           session_id?: string
           status?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "task_runs_launch_message_id_fkey"
+            columns: ["launch_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "task_runs_session_id_fkey"
             columns: ["session_id"]
@@ -141,12 +362,225 @@ export type Database = {
           },
         ]
       }
+      team_members: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      usage_budgets: {
+        Row: {
+          created_at: string
+          daily_limit_usd: number | null
+          id: string
+          monthly_limit_usd: number | null
+          team_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          daily_limit_usd?: number | null
+          id?: string
+          monthly_limit_usd?: number | null
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          daily_limit_usd?: number | null
+          id?: string
+          monthly_limit_usd?: number | null
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_budgets_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_ledger: {
+        Row: {
+          completion_tokens: number | null
+          cost_usd: number
+          created_at: string
+          id: string
+          kind: string
+          model: string | null
+          processor: string | null
+          prompt_tokens: number | null
+          provider: string
+          run_id: string | null
+          session_id: string | null
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number | null
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          kind: string
+          model?: string | null
+          processor?: string | null
+          prompt_tokens?: number | null
+          provider: string
+          run_id?: string | null
+          session_id?: string | null
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number | null
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          model?: string | null
+          processor?: string | null
+          prompt_tokens?: number | null
+          provider?: string
+          run_id?: string | null
+          session_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          duration_ms: number | null
+          error: string | null
+          event_type: string | null
+          id: string
+          outcome: string
+          payload: Json | null
+          processed_at: string | null
+          received_at: string
+          run_id: string | null
+          signature_valid: boolean | null
+          status: string | null
+          webhook_id: string
+        }
+        Insert: {
+          duration_ms?: number | null
+          error?: string | null
+          event_type?: string | null
+          id?: string
+          outcome?: string
+          payload?: Json | null
+          processed_at?: string | null
+          received_at?: string
+          run_id?: string | null
+          signature_valid?: boolean | null
+          status?: string | null
+          webhook_id: string
+        }
+        Update: {
+          duration_ms?: number | null
+          error?: string | null
+          event_type?: string | null
+          id?: string
+          outcome?: string
+          payload?: Json | null
+          processed_at?: string | null
+          received_at?: string
+          run_id?: string | null
+          signature_valid?: boolean | null
+          status?: string | null
+          webhook_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      finalize_task_run: {
+        Args: {
+          p_basis?: Json
+          p_message?: Json
+          p_metadata?: Json
+          p_output?: Json
+          p_result?: string
+          p_run_id: string
+          p_status: string
+        }
+        Returns: boolean
+      }
+      is_invited_to_team: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      latest_leaf_below: {
+        Args: { p_message_id: string; p_session_id: string }
+        Returns: string
+      }
+      usage_spend: {
+        Args: { p_since: string; p_user_ids: string[] }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
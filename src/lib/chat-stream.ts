@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Server-sent events emitted by chat-send when called with `stream: true`
+export type ChatStreamEvent =
+  // No stream_id when chat-send couldn't listen for a stop
+  | { type: 'start'; stream_id?: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; content: string; tokens: number; model: string }
+  | { type: 'error'; error: string };
+
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleEvent = (rawEvent: string) => {
+    const data = rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data: '))
+      .map(line => line.slice(6))
+      .join('\n');
+    if (data) {
+      onEvent(JSON.parse(data) as ChatStreamEvent);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Events end with a blank line and may arrive split across chunks
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      events.forEach(handleEvent);
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) handleEvent(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Closing the stream only disconnects; chat-send still finishes and saves the reply.
+// This asks it to stop generating, and it saves the partial reply instead.
+export async function stopChatStream(streamId: string): Promise<void> {
+  const channel = supabase.channel(`chat-stop:${streamId}`);
+  try {
+    const result = await channel.send({ type: 'broadcast', event: 'stop', payload: {} });
+    if (result !== 'ok') {
+      throw new Error(`Stop request ${result}`);
+    }
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+}
@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Edge functions verify the caller's Supabase JWT and only act on sessions they own
+export async function getAccessToken(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You need to be signed in to do that');
+  }
+  return session.access_token;
+}
+
+export async function functionHeaders(): Promise<Record<string, string>> {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${await getAccessToken()}`,
+  };
+}
@@ -0,0 +1,7 @@
+export {
+  buildBranchPath,
+  latestLeafFrom,
+  resolveLeafId,
+  siblingsOf,
+  type BranchMessage,
+} from '../../supabase/functions/_shared/history.ts';
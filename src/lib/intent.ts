@@ -0,0 +1,6 @@
+export {
+  parseSlashCommand,
+  type ChatIntent,
+  type ComposerMode,
+  type IntentResult,
+} from '../../supabase/functions/_shared/intent.ts';
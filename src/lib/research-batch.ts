@@ -0,0 +1,13 @@
+export {
+  DEFAULT_BATCH_CONCURRENCY,
+  ENTITY_PLACEHOLDER,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ENTITIES,
+  buildBatchResultsCsv,
+  entitiesFromRows,
+  hasEntityPlaceholder,
+  parseCsv,
+  type BatchItemResult,
+  type BatchItemStatus,
+  type BatchStatus,
+} from '../../supabase/functions/_shared/research-batch.ts';
@@ -0,0 +1,10 @@
+export {
+  formatUsd,
+  groupUsageByDay,
+  periodStart,
+  type BudgetLimits,
+  type BudgetPeriod,
+  type UsageDay,
+  type UsageEntry,
+  type UsageKind,
+} from '../../supabase/functions/_shared/usage.ts';
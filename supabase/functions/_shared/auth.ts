@@ -0,0 +1,89 @@
+// Request authentication for the edge functions. Functions run with the service role key,
+// which bypasses RLS, so every user-facing function must resolve the caller and check that
+// they own the session before touching it. parallel-webhook is the one exception: it is
+// authenticated by its signature instead (see webhook-signature.ts).
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { timingSafeEqual } from './webhook-signature.ts';
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+export interface RequireUserOptions {
+  // Only for EventSource endpoints (research-stream), which can't send headers. Elsewhere a
+  // token in the URL would end up in logs, so it is ignored.
+  allowQueryToken?: boolean;
+}
+
+function bearerToken(req: Request, allowQueryToken = false): string | null {
+  const header = req.headers.get('authorization');
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return allowQueryToken ? new URL(req.url).searchParams.get('access_token') : null;
+}
+
+export async function requireUser(
+  req: Request,
+  supabase: SupabaseClient,
+  options: RequireUserOptions = {}
+): Promise<User> {
+  const token = bearerToken(req, options.allowQueryToken);
+  if (!token) {
+    throw new AuthError('Missing access token');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new AuthError('Invalid or expired access token');
+  }
+
+  return user;
+}
+
+// Sessions owned by someone else are reported as missing so ids can't be probed
+export async function assertSessionOwner(
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<void> {
+  if (!sessionId) {
+    throw new AuthError('sessionId is required', 400);
+  }
+
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('user_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!session || session.user_id !== userId) {
+    throw new AuthError('Session not found', 404);
+  }
+}
+
+// For internal callers (pg_cron) that present the service role key itself
+export function requireServiceRole(req: Request, serviceRoleKey: string): void {
+  const token = bearerToken(req);
+  if (!token || !serviceRoleKey || !timingSafeEqual(token, serviceRoleKey)) {
+    throw new AuthError('Unauthorized');
+  }
+}
+
+export function authErrorResponse(error: AuthError, corsHeaders: Record<string, string>): Response {
+  console.error(`🔒 ${error.message}`);
+  return new Response(JSON.stringify({ error: error.message }), {
+    status: error.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
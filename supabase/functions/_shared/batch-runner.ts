@@ -0,0 +1,285 @@
+// Drives research_batches forward: launches pending rows while fewer than `concurrency` are
+// in flight and posts one chat message when the batch is done. Finished rows are recorded
+// by the finalize_task_run RPC. Called by research-batch when a batch starts or resumes,
+// by applyTaskRunStatus and research-cancel whenever one of its runs finishes, and by
+// research-reconcile, which recovers stalled launches and restarts batches that stopped
+// advancing.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { buildOutputSchema } from './output-schema.ts';
+import type { ParallelService } from './parallel.ts';
+import { DEFAULT_PROCESSOR, findProcessor, isProcessorTier } from './processors.ts';
+import type { ResearchBrief } from './research-brief.ts';
+import {
+  ACTIVE_BATCH_ITEM_STATUSES,
+  fillBriefTemplate,
+  type BatchItemStatus,
+  type BatchStatus,
+} from './research-batch.ts';
+import { BudgetExceededError, assertWithinBudget, recordUsage } from './usage-ledger.ts';
+
+interface BatchRow {
+  id: string;
+  user_id: string;
+  session_id: string;
+  name: string;
+  brief: ResearchBrief;
+  processor: string;
+  concurrency: number;
+  status: BatchStatus;
+  parent_message_id: string | null;
+}
+
+async function loadBatch(supabase: SupabaseClient, batchId: string): Promise<BatchRow> {
+  const { data, error } = await supabase
+    .from('research_batches')
+    .select('id, user_id, session_id, name, brief, processor, concurrency, status, parent_message_id')
+    .eq('id', batchId)
+    .single();
+
+  if (error || !data) {
+    throw error ?? new Error(`Batch ${batchId} not found`);
+  }
+  return data as BatchRow;
+}
+
+async function countItems(supabase: SupabaseClient, batchId: string, statuses: BatchItemStatus[]): Promise<number> {
+  const { count, error } = await supabase
+    .from('research_batch_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_id', batchId)
+    .in('status', statuses);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Returns false when the batch had to pause instead of launching the row
+async function launchItem(
+  supabase: SupabaseClient,
+  parallel: ParallelService,
+  batch: BatchRow,
+  item: { id: string; entity: string }
+): Promise<boolean> {
+  const processor = isProcessorTier(batch.processor) ? batch.processor : DEFAULT_PROCESSOR;
+  const costUsd = findProcessor(processor).costPerRunUsd;
+
+  try {
+    await assertWithinBudget(supabase, batch.user_id, costUsd);
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    console.warn(`⏸️ Pausing batch ${batch.id}: ${error.message}`);
+    await supabase
+      .from('research_batches')
+      .update({ status: 'paused', status_reason: error.message })
+      .eq('id', batch.id)
+      .eq('status', 'running');
+    return false;
+  }
+
+  // Claim the row so a concurrent caller can't launch it too
+  const { data: claimed, error: claimError } = await supabase
+    .from('research_batch_items')
+    .update({ status: 'queued' })
+    .eq('id', item.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return true;
+
+  const brief = fillBriefTemplate(batch.brief, item.entity);
+  const outputSchema = buildOutputSchema(brief);
+
+  try {
+    const run = await parallel.createTaskRun({
+      input: brief.objective,
+      processor,
+      enable_events: false,
+      webhook: {
+        url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/parallel-webhook`,
+        event_types: ['task_run.status'],
+      },
+      task_spec: {
+        output_schema: {
+          type: 'json',
+          json_schema: outputSchema,
+        },
+      },
+    });
+
+    // Charged as soon as the run exists, even if recording it below fails
+    await recordUsage(supabase, {
+      user_id: batch.user_id,
+      session_id: batch.session_id,
+      kind: 'research',
+      provider: 'parallel',
+      processor,
+      run_id: run.run_id,
+      cost_usd: costUsd,
+    });
+
+    const { error: runError } = await supabase
+      .from('task_runs')
+      .insert({
+        session_id: batch.session_id,
+        run_id: run.run_id,
+        parallel_run_id: run.run_id,
+        brief_text: brief.objective,
+        processor,
+        status: 'queued',
+        metadata: { output_schema: outputSchema, batch_id: batch.id, batch_item_id: item.id },
+      });
+    if (runError) throw runError;
+
+    const { error: itemError } = await supabase
+      .from('research_batch_items')
+      .update({ run_id: run.run_id })
+      .eq('id', item.id);
+    if (itemError) {
+      // The run is tracked in task_runs, so the row isn't failed: recoverStalledLaunches
+      // links it up on the next reconcile pass
+      console.error(`❌ Failed to link batch row "${item.entity}" to ${run.run_id}:`, itemError);
+      return true;
+    }
+
+    console.log(`🚀 Launched batch row "${item.entity}" as ${run.run_id}`);
+  } catch (error) {
+    console.error(`❌ Failed to launch batch row "${item.entity}":`, error);
+    const { error: failError } = await supabase
+      .from('research_batch_items')
+      .update({ status: 'failed', error: error.message, completed_at: new Date().toISOString() })
+      .eq('id', item.id);
+    // Left queued without a run, which recoverStalledLaunches fails later
+    if (failError) console.error(`❌ Error failing batch row "${item.entity}":`, failError);
+  }
+
+  return true;
+}
+
+async function completeBatchIfDone(supabase: SupabaseClient, batch: BatchRow): Promise<void> {
+  if (batch.status !== 'running') return;
+
+  const remaining = await countItems(supabase, batch.id, ['pending', ...ACTIVE_BATCH_ITEM_STATUSES]);
+  if (remaining > 0) return;
+
+  // Only the caller that flips the status posts the summary
+  const { data: claimed, error } = await supabase
+    .from('research_batches')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', batch.id)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) throw error;
+  if (!claimed || claimed.length === 0) return;
+
+  const succeeded = await countItems(supabase, batch.id, ['completed']);
+  const failed = await countItems(supabase, batch.id, ['failed', 'canceled']);
+
+  // At the end of the branch the batch was started from, like a single run's result
+  const { data: parentId, error: parentError } = await supabase.rpc('latest_leaf_below', {
+    p_session_id: batch.session_id,
+    p_message_id: batch.parent_message_id,
+  });
+  if (parentError) throw parentError;
+
+  await supabase.from('messages').insert({
+    session_id: batch.session_id,
+    parent_message_id: parentId,
+    role: 'system',
+    content: `✅ **Batch Research Complete: ${batch.name}**\n\n${succeeded} of ${succeeded + failed} rows finished${failed ? `, ${failed} failed or were canceled` : ''}. Download the merged results from the batch card.`,
+    metadata: { batch_id: batch.id, status: 'completed' },
+  });
+
+  console.log(`🏁 Batch ${batch.id} completed: ${succeeded} succeeded, ${failed} failed`);
+}
+
+// Two callers finishing rows at the same moment can briefly overshoot `concurrency`,
+// but each row is claimed before launch, so none runs twice. A row that fails to launch
+// frees its slot straight away, so launching continues until the slots are full or no
+// rows are pending.
+export async function advanceBatch(
+  supabase: SupabaseClient,
+  parallel: ParallelService,
+  batchId: string
+): Promise<void> {
+  const batch = await loadBatch(supabase, batchId);
+
+  while (batch.status === 'running') {
+    const slots = batch.concurrency - await countItems(supabase, batchId, ACTIVE_BATCH_ITEM_STATUSES);
+    if (slots <= 0) break;
+
+    const { data: pending, error } = await supabase
+      .from('research_batch_items')
+      .select('id, entity')
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+      .order('position', { ascending: true })
+      .limit(slots);
+
+    if (error) throw error;
+    if (!pending || pending.length === 0) break;
+
+    for (const item of pending) {
+      if (!await launchItem(supabase, parallel, batch, item)) {
+        batch.status = 'paused';
+        break;
+      }
+    }
+  }
+
+  await completeBatchIfDone(supabase, batch);
+}
+
+// Rows claimed for launch that never got a run_id, e.g. because the function died partway
+// through launchItem. A row whose run was created gets its run_id back; the rest are failed.
+// Returns the ids of the batches touched, which the caller should advance.
+export async function recoverStalledLaunches(supabase: SupabaseClient, olderThan: string): Promise<string[]> {
+  const { data: stalled, error } = await supabase
+    .from('research_batch_items')
+    .select('id, batch_id, entity')
+    .eq('status', 'queued')
+    .is('run_id', null)
+    .lt('updated_at', olderThan);
+
+  if (error) throw error;
+
+  const batchIds = new Set<string>();
+  for (const item of stalled || []) {
+    const { data: run, error: runError } = await supabase
+      .from('task_runs')
+      .select('run_id')
+      .eq('metadata->>batch_item_id', item.id)
+      .maybeSingle();
+    if (runError) throw runError;
+
+    const { error: updateError } = await supabase
+      .from('research_batch_items')
+      .update(run
+        ? { run_id: run.run_id }
+        : { status: 'failed', error: 'Launch did not complete', completed_at: new Date().toISOString() })
+      .eq('id', item.id)
+      .eq('status', 'queued')
+      .is('run_id', null);
+    if (updateError) throw updateError;
+
+    console.warn(`🩹 Recovered stalled batch row "${item.entity}":`, run ? `found run ${run.run_id}` : 'marked failed');
+    batchIds.add(item.batch_id);
+  }
+
+  return [...batchIds];
+}
+
+export async function updateBatchItemStatus(
+  supabase: SupabaseClient,
+  itemId: string,
+  status: BatchItemStatus
+): Promise<void> {
+  const { error } = await supabase
+    .from('research_batch_items')
+    .update({ status })
+    .eq('id', itemId)
+    .in('status', ACTIVE_BATCH_ITEM_STATUSES);
+
+  if (error) throw error;
+}
@@ -0,0 +1,94 @@
+// Normalises the per-field `basis` Parallel attaches to task results and indexes
+// its citations into numbered sources for footnotes.
+
+export interface Citation {
+  url: string;
+  title?: string;
+  excerpts?: string[];
+}
+
+export interface FieldBasis {
+  field: string;
+  citations: Citation[];
+  reasoning?: string;
+  confidence?: string;
+}
+
+export interface CitationSource {
+  number: number;
+  url: string;
+  title?: string;
+  excerpts: string[];
+  fields: string[];
+}
+
+export function normalizeBasis(raw: unknown): FieldBasis[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+    .filter(entry => typeof entry.field === 'string')
+    .map(entry => ({
+      field: entry.field as string,
+      citations: (Array.isArray(entry.citations) ? entry.citations : [])
+        .filter((c): c is Record<string, unknown> => typeof c === 'object' && c !== null && typeof c.url === 'string')
+        .map(c => ({
+          url: c.url as string,
+          title: typeof c.title === 'string' ? c.title : undefined,
+          excerpts: Array.isArray(c.excerpts) ? c.excerpts.filter((e): e is string => typeof e === 'string') : [],
+        })),
+      reasoning: typeof entry.reasoning === 'string' ? entry.reasoning : undefined,
+      confidence: typeof entry.confidence === 'string' ? entry.confidence : undefined,
+    }));
+}
+
+// Top-level output field a basis entry supports ("key_people.0.name" -> "key_people")
+export function basisRootField(field: string): string {
+  return field.split(/[.[]/)[0];
+}
+
+export function buildSourceIndex(basis: FieldBasis[]): CitationSource[] {
+  const byUrl = new Map<string, CitationSource>();
+
+  for (const entry of basis) {
+    for (const citation of entry.citations) {
+      let source = byUrl.get(citation.url);
+      if (!source) {
+        source = { number: byUrl.size + 1, url: citation.url, title: citation.title, excerpts: [], fields: [] };
+        byUrl.set(citation.url, source);
+      }
+      source.title = source.title || citation.title;
+      for (const excerpt of citation.excerpts || []) {
+        if (!source.excerpts.includes(excerpt)) source.excerpts.push(excerpt);
+      }
+      if (!source.fields.includes(entry.field)) source.fields.push(entry.field);
+    }
+  }
+
+  return Array.from(byUrl.values());
+}
+
+// Footnote numbers per top-level output field
+export function fieldFootnotes(sources: CitationSource[]): Record<string, number[]> {
+  const footnotes: Record<string, number[]> = {};
+
+  for (const source of sources) {
+    for (const field of source.fields) {
+      const root = basisRootField(field);
+      footnotes[root] = footnotes[root] || [];
+      if (!footnotes[root].includes(source.number)) footnotes[root].push(source.number);
+    }
+  }
+
+  return footnotes;
+}
+
+export function renderCitationsMarkdown(sources: CitationSource[]): string {
+  if (sources.length === 0) return '';
+
+  const lines = sources.map(source => {
+    const label = source.title ? `${source.title} — ${source.url}` : source.url;
+    return `${source.number}. ${label}`;
+  });
+  return `## Citations\n\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,84 @@
+// Token budgeting for the history sent to the model. Recent turns go verbatim; anything
+// older than the budget allows is folded into a rolling summary (see session-history.ts).
+
+export interface ContextTurn {
+  id: string;
+  // 'research' turns are completed results condensed by research-context.ts
+  role: 'user' | 'assistant' | 'research';
+  content: string;
+}
+
+export interface ContextWindowOptions {
+  // Budget for the verbatim turns
+  maxTokens: number;
+  // Always kept verbatim, even when they alone exceed the budget
+  minRecentTurns: number;
+}
+
+export const DEFAULT_CONTEXT_WINDOW: ContextWindowOptions = {
+  maxTokens: 16000,
+  minRecentTurns: 4,
+};
+
+// Rough count (about four characters per token for English); close enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function splitContextWindow(
+  turns: ContextTurn[],
+  options: ContextWindowOptions = DEFAULT_CONTEXT_WINDOW
+): { older: ContextTurn[]; recent: ContextTurn[]; recentTokens: number } {
+  let recentTokens = 0;
+  let start = turns.length;
+
+  while (start > 0) {
+    const tokens = estimateTokens(turns[start - 1].content);
+    const mustKeep = turns.length - start < options.minRecentTurns;
+    if (!mustKeep && recentTokens + tokens > options.maxTokens) break;
+    recentTokens += tokens;
+    start--;
+  }
+
+  return { older: turns.slice(0, start), recent: turns.slice(start), recentTokens };
+}
+
+// Splits turns into groups that each fit in one summarization request
+export function chunkTurns(turns: ContextTurn[], maxTokens: number): ContextTurn[][] {
+  const chunks: ContextTurn[][] = [];
+  let current: ContextTurn[] = [];
+  let currentTokens = 0;
+
+  for (const turn of turns) {
+    const tokens = estimateTokens(turn.content);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(turn);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+const TURN_LABELS: Record<ContextTurn['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  research: 'Research result',
+};
+
+export function buildSummaryPrompt(previousSummary: string | null, turns: ContextTurn[]): string {
+  const transcript = turns
+    .map(turn => `${TURN_LABELS[turn.role]}: ${turn.content}`)
+    .join('\n\n');
+
+  return `You maintain a running summary of a research conversation so it can continue after older messages are dropped.
+
+${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}New messages to fold in:
+${transcript}
+
+Write an updated summary in at most 300 words. Keep the user's goals, constraints, decisions, open questions and any facts, figures or sources (with their URLs) that later answers may rely on. Write plain prose without headings.`;
+}
@@ -0,0 +1,237 @@
+import { GEMINI_MODEL, MODEL_DEFAULTS } from './model-config.ts';
+import {
+  type LLMGenerationConfig,
+  type LLMJsonOptions,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequestOptions,
+  type LLMResult,
+  type LLMUsage,
+} from './llm.ts';
+
+export { GEMINI_MODEL };
+
+export interface GeminiMessage {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+export interface GeminiUsage {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  totalTokenCount: number;
+}
+
+export interface GeminiResponse {
+  candidates: Array<{
+    content: {
+      parts: Array<{ text: string }>;
+    };
+    finishReason?: string;
+  }>;
+  usageMetadata?: GeminiUsage;
+}
+
+export interface GeminiGenerationConfig extends LLMGenerationConfig {
+  responseMimeType?: string;
+  responseSchema?: unknown;
+}
+
+export interface GeminiStreamResult {
+  text: string;
+  usage?: GeminiUsage;
+  finishReason?: string;
+}
+
+export interface GeminiServiceOptions {
+  model?: string;
+  systemInstruction?: string;
+}
+
+// Gemini only accepts 'user' and 'model' turns, and consecutive turns from the same side
+// are merged into one turn with several parts
+export function toGeminiMessages(messages: LLMMessage[]): GeminiMessage[] {
+  const contents: GeminiMessage[] = [];
+  for (const message of messages) {
+    const role = message.role === 'user' ? 'user' : 'model';
+    const previous = contents[contents.length - 1];
+    if (previous?.role === role) {
+      previous.parts.push({ text: message.content });
+    } else {
+      contents.push({ role, parts: [{ text: message.content }] });
+    }
+  }
+  return contents;
+}
+
+function toUsage(usage: GeminiUsage | undefined): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount,
+    completionTokens: usage.candidatesTokenCount,
+    totalTokens: usage.totalTokenCount,
+  };
+}
+
+export class GeminiService implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private generationConfig: GeminiGenerationConfig;
+  private systemInstruction?: string;
+
+  constructor(
+    apiKey: string,
+    generationConfig: GeminiGenerationConfig = MODEL_DEFAULTS.chat.generationConfig,
+    options: GeminiServiceOptions = {}
+  ) {
+    this.apiKey = apiKey;
+    this.generationConfig = generationConfig;
+    this.model = options.model || GEMINI_MODEL;
+    this.baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}`;
+    this.systemInstruction = options.systemInstruction;
+  }
+
+  private requestBody(messages: GeminiMessage[], overrides: GeminiGenerationConfig = {}): string {
+    return JSON.stringify({
+      contents: messages,
+      generationConfig: { ...this.generationConfig, ...overrides },
+      ...(this.systemInstruction
+        ? { systemInstruction: { parts: [{ text: this.systemInstruction }] } }
+        : {}),
+    });
+  }
+
+  async generateContent(
+    messages: GeminiMessage[],
+    overrides?: GeminiGenerationConfig,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse> {
+    const response = await fetch(`${this.baseUrl}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: this.requestBody(messages, overrides),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  // Streams the reply as server-sent events, calling onChunk for each text fragment.
+  // Resolves with the full text and the usage Gemini reports in its last event.
+  async streamGenerateContent(
+    messages: GeminiMessage[],
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<GeminiStreamResult> {
+    const response = await fetch(`${this.baseUrl}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: this.requestBody(messages),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    const result: GeminiStreamResult = { text: '' };
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data: ')) return;
+
+      let data: GeminiResponse;
+      try {
+        data = JSON.parse(line.slice(6));
+      } catch {
+        // Skip invalid JSON chunks
+        return;
+      }
+
+      const candidate = data.candidates?.[0];
+      const text = candidate?.content?.parts?.map(part => part.text || '').join('') || '';
+      if (text) {
+        result.text += text;
+        onChunk(text);
+      }
+      if (candidate?.finishReason) {
+        result.finishReason = candidate.finishReason;
+      }
+      if (data.usageMetadata) {
+        result.usage = data.usageMetadata;
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events can be split across network chunks; keep the unfinished line for the next read
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(line => handleLine(line.trimEnd()));
+      }
+
+      buffer += decoder.decode();
+      if (buffer) handleLine(buffer.trimEnd());
+    } finally {
+      reader.releaseLock();
+    }
+
+    return result;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResult> {
+    const response = await this.generateContent(toGeminiMessages(messages), undefined, options.signal);
+    const candidate = response.candidates?.[0];
+    return {
+      text: candidate?.content?.parts?.map(part => part.text || '').join('') || '',
+      usage: toUsage(response.usageMetadata),
+      finishReason: candidate?.finishReason,
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (text: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResult> {
+    const result = await this.streamGenerateContent(toGeminiMessages(messages), onChunk, options.signal);
+    return { text: result.text, usage: toUsage(result.usage), finishReason: result.finishReason };
+  }
+
+  async generateJson(messages: LLMMessage[], options: LLMJsonOptions = {}): Promise<LLMResult> {
+    const response = await this.generateContent(
+      toGeminiMessages(messages),
+      {
+        responseMimeType: 'application/json',
+        ...(options.responseSchema ? { responseSchema: options.responseSchema } : {}),
+      },
+      options.signal
+    );
+    const candidate = response.candidates?.[0];
+    const content = candidate?.content?.parts?.map(part => part.text || '').join('');
+    if (!content) throw new Error('No response generated');
+    return { text: content, usage: toUsage(response.usageMetadata), finishReason: candidate?.finishReason };
+  }
+}
@@ -0,0 +1,58 @@
+// Conversations are trees: every message points at the one it follows through
+// parent_message_id, and editing a user message starts a sibling branch. The session's
+// active_leaf_id picks which branch is shown and sent to the model.
+
+export interface BranchMessage {
+  id: string;
+  parent_message_id: string | null;
+  created_at: string;
+}
+
+const byCreatedAt = (a: BranchMessage, b: BranchMessage) => (a.created_at > b.created_at ? 1 : -1);
+
+// The stored leaf when it still exists, otherwise the newest message
+export function resolveLeafId<T extends BranchMessage>(messages: T[], activeLeafId: string | null | undefined): string | null {
+  if (activeLeafId && messages.some(message => message.id === activeLeafId)) {
+    return activeLeafId;
+  }
+  const newest = messages.slice().sort(byCreatedAt).pop();
+  return newest?.id ?? null;
+}
+
+// Messages from the root down to leafId, oldest first
+export function buildBranchPath<T extends BranchMessage>(messages: T[], leafId: string | null | undefined): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parent_message_id ? byId.get(current.parent_message_id) : undefined;
+  }
+
+  return path.reverse();
+}
+
+export function siblingsOf<T extends BranchMessage>(messages: T[], message: T): T[] {
+  return messages
+    .filter(candidate => candidate.parent_message_id === message.parent_message_id)
+    .sort(byCreatedAt);
+}
+
+// Follows the newest child down from messageId, i.e. where that branch was last continued
+export function latestLeafFrom<T extends BranchMessage>(messages: T[], messageId: string): string {
+  const seen = new Set<string>();
+  let leafId = messageId;
+
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const children = messages.filter(message => message.parent_message_id === leafId).sort(byCreatedAt);
+    const newest = children[children.length - 1];
+    if (!newest) break;
+    leafId = newest.id;
+  }
+
+  return leafId;
+}
@@ -0,0 +1,70 @@
+// Whether a message should get a chat reply, a paid research run, or a clarifying question.
+// chat-intent asks the model; the composer's mode toggle and /research or /chat commands
+// skip the classifier entirely.
+import { z } from 'zod';
+
+export const CHAT_INTENTS = ['chat', 'research', 'clarify'] as const;
+
+export type ChatIntent = typeof CHAT_INTENTS[number];
+
+export const intentResultSchema = z.object({
+  intent: z.enum(CHAT_INTENTS),
+  confidence: z.number().min(0).max(1),
+  reason: z.string(),
+});
+
+export type IntentResult = z.infer<typeof intentResultSchema>;
+
+export const INTENT_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    intent: { type: 'STRING', enum: [...CHAT_INTENTS] },
+    confidence: { type: 'NUMBER', description: 'From 0 to 1' },
+    reason: { type: 'STRING', description: 'One short sentence' },
+  },
+  required: ['intent', 'confidence', 'reason'],
+  propertyOrdering: ['intent', 'confidence', 'reason'],
+};
+
+// A research run costs money, so a 'research' verdict below this is downgraded to 'clarify'
+export const RESEARCH_CONFIDENCE_THRESHOLD = 0.6;
+
+export function applyConfidenceThreshold(result: IntentResult): IntentResult {
+  if (result.intent === 'research' && result.confidence < RESEARCH_CONFIDENCE_THRESHOLD) {
+    return { ...result, intent: 'clarify' };
+  }
+  return result;
+}
+
+export function buildIntentPrompt(message: string): string {
+  return `Classify the user's latest message for a research assistant that can either reply in chat or launch a paid web research task (several minutes, gathers and cites many sources).
+
+Latest message:
+"""
+${message}
+"""
+
+Answer with:
+- "research" when the user wants information gathered from current external sources: investigations, market or competitor scans, literature reviews, fact-finding with citations.
+- "chat" for everything the assistant can answer from the conversation or general knowledge: explanations, rewriting, brainstorming, follow-ups on results already in the conversation, small talk.
+- "clarify" when it's genuinely unclear which the user wants, or a research request is too vague to scope.
+
+Judge by what the user is asking for, not by message length or words like "research" or "compare". Use the earlier conversation for context. Set confidence to how sure you are.`;
+}
+
+// Appended to the user's turn when chat-send is asked to clarify rather than answer
+export const CLARIFY_INSTRUCTION = `(It's unclear whether I want a chat answer or a full web research run. Ask me one short clarifying question about what I'm after, and mention that starting a message with /research launches research and /chat keeps it a conversation.)`;
+
+export type ComposerMode = 'auto' | 'chat' | 'research';
+
+// "/research ..." and "/chat ..." force a mode for a single message
+const SLASH_COMMAND = /^\/(research|chat)(?:\s+|$)/i;
+
+export function parseSlashCommand(input: string): { mode: ComposerMode; message: string } | null {
+  const match = input.match(SLASH_COMMAND);
+  if (!match) return null;
+  return {
+    mode: match[1].toLowerCase() as ComposerMode,
+    message: input.slice(match[0].length).trim(),
+  };
+}
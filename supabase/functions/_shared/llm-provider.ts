@@ -0,0 +1,50 @@
+// Picks the LLM backend from the environment:
+//
+//   LLM_PROVIDER=gemini (default)  Google Gemini, using GEMINI_API_KEY
+//   LLM_PROVIDER=openai            Any OpenAI-compatible chat-completions server (OpenAI,
+//                                  Ollama, vLLM, ...) at OPENAI_BASE_URL, serving OPENAI_MODEL
+import { GeminiService } from './gemini.ts';
+import type { LLMProvider } from './llm.ts';
+import type { ModelSettings } from './model-config.ts';
+import { OpenAICompatibleProvider } from './openai-compatible.ts';
+
+interface EnvReader {
+  get(key: string): string | undefined;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Builds the configured provider for one request. The session's model id is Gemini-specific,
+// so the OpenAI-compatible backend always serves OPENAI_MODEL instead.
+export function createLLMProvider(env: EnvReader, settings: ModelSettings): LLMProvider {
+  const provider = (env.get('LLM_PROVIDER') || 'gemini').toLowerCase();
+
+  if (provider === 'openai') {
+    const model = env.get('OPENAI_MODEL');
+    if (!model) {
+      throw new Error('OPENAI_MODEL not configured');
+    }
+    return new OpenAICompatibleProvider(
+      {
+        baseUrl: env.get('OPENAI_BASE_URL') || DEFAULT_OPENAI_BASE_URL,
+        apiKey: env.get('OPENAI_API_KEY'),
+        model,
+      },
+      settings.generationConfig,
+      settings.systemInstruction
+    );
+  }
+
+  if (provider !== 'gemini') {
+    throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+
+  const apiKey = env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY not configured');
+  }
+  return new GeminiService(apiKey, settings.generationConfig, {
+    model: settings.model,
+    systemInstruction: settings.systemInstruction,
+  });
+}
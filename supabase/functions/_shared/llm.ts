@@ -0,0 +1,78 @@
+// Provider-neutral interface to the chat model. Edge functions talk to an LLMProvider and
+// never to a vendor API directly (see llm-provider.ts for how the backend is chosen).
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Gemini's names; other backends map them onto their own parameters
+export interface LLMGenerationConfig {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResult {
+  text: string;
+  usage?: LLMUsage;
+  // As reported by the backend, e.g. 'STOP' / 'MAX_TOKENS' (Gemini) or 'stop' / 'length'
+  finishReason?: string;
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LLMJsonOptions extends LLMRequestOptions {
+  // Gemini responseSchema (OpenAPI subset). Backends without schema support ignore it and
+  // only ask for a JSON object.
+  responseSchema?: unknown;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMResult>;
+  // Calls onChunk for each text fragment and resolves with the full reply
+  stream(messages: LLMMessage[], onChunk: (text: string) => void, options?: LLMRequestOptions): Promise<LLMResult>;
+  // Asks the model for a JSON reply. The text is returned unparsed so usage is reported like
+  // any other call; read it with parseJsonReply and validate the shape.
+  generateJson(messages: LLMMessage[], options?: LLMJsonOptions): Promise<LLMResult>;
+}
+
+export class InvalidJsonReplyError extends Error {
+  constructor(public reply: string, cause?: unknown) {
+    super(`Model reply is not valid JSON: ${cause instanceof Error ? cause.message : 'parse failed'}`);
+    this.name = 'InvalidJsonReplyError';
+  }
+}
+
+// Parses a JSON reply, tolerating a markdown code fence or commentary around the object
+export function parseJsonReply(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // Fall back to the outermost {...} in the reply
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(candidate.slice(start, end + 1));
+      } catch {
+        // Report the original error below
+      }
+    }
+    throw new InvalidJsonReplyError(text, error);
+  }
+}
@@ -0,0 +1,129 @@
+// Which model and generation settings each kind of request uses. Sessions can
+// override the model, temperature, output length and system instruction through
+// chat_sessions.model_settings; everything else falls back to the defaults here.
+import type { LLMGenerationConfig } from './llm.ts';
+
+// Default for every request that has no session override
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiModelOption {
+  id: string;
+  label: string;
+  description: string;
+  maxOutputTokens: number;
+  // List prices, used to estimate spend in usage_ledger
+  inputPricePerMillionUsd: number;
+  outputPricePerMillionUsd: number;
+}
+
+export const GEMINI_MODELS: GeminiModelOption[] = [
+  {
+    id: GEMINI_MODEL,
+    label: 'Gemini 2.5 Flash',
+    description: 'Fast and inexpensive; good for everyday chat',
+    maxOutputTokens: 65536,
+    inputPricePerMillionUsd: 0.3,
+    outputPricePerMillionUsd: 2.5,
+  },
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    description: 'Slower, stronger reasoning for hard analysis',
+    maxOutputTokens: 65536,
+    inputPricePerMillionUsd: 1.25,
+    outputPricePerMillionUsd: 10,
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    label: 'Gemini 2.5 Flash-Lite',
+    description: 'Fastest and cheapest for quick, simple replies',
+    maxOutputTokens: 65536,
+    inputPricePerMillionUsd: 0.1,
+    outputPricePerMillionUsd: 0.4,
+  },
+];
+
+// Shape of chat_sessions.model_settings; every field is optional
+export interface SessionModelSettings {
+  model?: string;
+  temperature?: number;
+  max_output_tokens?: number;
+  system_instruction?: string;
+}
+
+export type ModelPurpose = 'chat' | 'plan' | 'summary' | 'intent';
+
+export interface ModelSettings {
+  model: string;
+  generationConfig: LLMGenerationConfig;
+  systemInstruction?: string;
+}
+
+export const MODEL_DEFAULTS: Record<ModelPurpose, ModelSettings> = {
+  chat: {
+    model: GEMINI_MODEL,
+    generationConfig: { temperature: 0.9, topK: 1, topP: 1, maxOutputTokens: 2048 },
+  },
+  plan: {
+    model: GEMINI_MODEL,
+    generationConfig: { temperature: 0.3, topK: 1, topP: 1, maxOutputTokens: 1024 },
+  },
+  summary: {
+    model: GEMINI_MODEL,
+    generationConfig: { temperature: 0.2, maxOutputTokens: 1024 },
+  },
+  intent: {
+    model: GEMINI_MODEL,
+    generationConfig: { temperature: 0, maxOutputTokens: 256 },
+  },
+};
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_SYSTEM_INSTRUCTION_LENGTH = 4000;
+
+export function findModel(id: string | undefined): GeminiModelOption | undefined {
+  return GEMINI_MODELS.find(model => model.id === id);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Always sent first, so the model knows what product it is part of
+export const BASE_SYSTEM_INSTRUCTION = `You are Research Copilot, an assistant that helps a team scope, run and discuss research. In chat, answer directly in Markdown and keep to what the conversation and any research results support; say so when something needs proper research rather than guessing. When research results are in the conversation, cite their sources by number, e.g. [1].`;
+
+// Base instruction, then the session's preset, then the session's own instruction
+export function composeSystemInstruction(presetInstruction?: string | null, sessionInstruction?: string | null): string {
+  return [BASE_SYSTEM_INSTRUCTION, presetInstruction, sessionInstruction]
+    .map(part => (typeof part === 'string' ? part.trim().slice(0, MAX_SYSTEM_INSTRUCTION_LENGTH) : ''))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Merges a session's stored settings over the defaults for `purpose`. Planning takes the
+// session's model and system instruction, but keeps the temperature and length tuned for
+// producing a JSON brief. Summaries and intent classification always use the defaults. Unknown models and out-of-range
+// values are ignored.
+export function resolveModelSettings(
+  purpose: ModelPurpose,
+  stored?: unknown,
+  presetInstruction?: string | null
+): ModelSettings {
+  const defaults = MODEL_DEFAULTS[purpose];
+  const settings = (typeof stored === 'object' && stored !== null ? stored : {}) as SessionModelSettings;
+  if (purpose === 'summary' || purpose === 'intent') return defaults;
+
+  const model = findModel(settings.model) ?? findModel(defaults.model)!;
+  const systemInstruction = composeSystemInstruction(presetInstruction, settings.system_instruction);
+  if (purpose === 'plan') return { ...defaults, model: model.id, systemInstruction };
+
+  const generationConfig = { ...defaults.generationConfig };
+  if (typeof settings.temperature === 'number' && Number.isFinite(settings.temperature)) {
+    generationConfig.temperature = clamp(settings.temperature, 0, MAX_TEMPERATURE);
+  }
+  if (typeof settings.max_output_tokens === 'number' && settings.max_output_tokens > 0) {
+    generationConfig.maxOutputTokens = clamp(Math.round(settings.max_output_tokens), 1, model.maxOutputTokens);
+  }
+
+  return { model: model.id, generationConfig, systemInstruction };
+}
@@ -0,0 +1,180 @@
+// LLMProvider for servers that speak the OpenAI chat-completions API: OpenAI itself, or a
+// local Ollama / vLLM / llama.cpp server for offline development.
+import {
+  type LLMGenerationConfig,
+  type LLMJsonOptions,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequestOptions,
+  type LLMResult,
+  type LLMUsage,
+} from './llm.ts';
+
+export interface OpenAICompatibleConfig {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  // Local servers usually don't need one
+  apiKey?: string;
+  model: string;
+}
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: CompletionUsage | null;
+}
+
+function toUsage(usage: CompletionUsage | null | undefined): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private generationConfig: LLMGenerationConfig;
+  private systemInstruction?: string;
+
+  constructor(config: OpenAICompatibleConfig, generationConfig: LLMGenerationConfig = {}, systemInstruction?: string) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.generationConfig = generationConfig;
+    this.systemInstruction = systemInstruction;
+  }
+
+  private async request(
+    messages: LLMMessage[],
+    extra: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          ...(this.systemInstruction ? [{ role: 'system', content: this.systemInstruction }] : []),
+          ...messages,
+        ],
+        temperature: this.generationConfig.temperature,
+        top_p: this.generationConfig.topP,
+        max_tokens: this.generationConfig.maxOutputTokens,
+        ...extra,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResult> {
+    const response = await this.request(messages, { stream: false }, options.signal);
+    const data: ChatCompletionChunk = await response.json();
+    const choice = data.choices?.[0];
+    return {
+      text: choice?.message?.content || '',
+      usage: toUsage(data.usage),
+      finishReason: choice?.finish_reason || undefined,
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (text: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResult> {
+    const response = await this.request(
+      messages,
+      { stream: true, stream_options: { include_usage: true } },
+      options.signal
+    );
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    const result: LLMResult = { text: '' };
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data: ')) return;
+      const payload = line.slice(6);
+      if (payload === '[DONE]') return;
+
+      let data: ChatCompletionChunk;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        // Skip invalid JSON chunks
+        return;
+      }
+
+      const choice = data.choices?.[0];
+      const text = choice?.delta?.content || '';
+      if (text) {
+        result.text += text;
+        onChunk(text);
+      }
+      if (choice?.finish_reason) {
+        result.finishReason = choice.finish_reason;
+      }
+      // With include_usage the totals arrive in a last chunk that has no choices
+      if (data.usage) {
+        result.usage = toUsage(data.usage);
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(line => handleLine(line.trimEnd()));
+      }
+
+      buffer += decoder.decode();
+      if (buffer) handleLine(buffer.trimEnd());
+    } finally {
+      reader.releaseLock();
+    }
+
+    return result;
+  }
+
+  // responseSchema is Gemini's dialect, so only JSON mode is requested here
+  async generateJson(messages: LLMMessage[], options: LLMJsonOptions = {}): Promise<LLMResult> {
+    const response = await this.request(messages, { response_format: { type: 'json_object' } }, options.signal);
+    const data: ChatCompletionChunk = await response.json();
+    const choice = data.choices?.[0];
+    const content = choice?.message?.content;
+    if (!content) throw new Error('No response generated');
+    return { text: content, usage: toUsage(data.usage), finishReason: choice?.finish_reason || undefined };
+  }
+}
@@ -0,0 +1,173 @@
+// Builds the JSON Schema sent to Parallel as the task output schema.
+// Pure module: imported by the edge functions and by the frontend (src/lib/parallel.ts).
+import type { ResearchBrief } from './research-brief.ts';
+
+export type OutputFieldType = 'string' | 'number' | 'boolean' | 'string_list' | 'object_list' | 'object';
+
+export interface OutputFieldSpec {
+  type?: OutputFieldType;
+  description?: string;
+  // Property names for `object` fields, column names for `object_list` fields
+  properties?: string[];
+}
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface OutputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+  required: string[];
+}
+
+export interface NamedOutputSchema {
+  label: string;
+  description: string;
+  fields: Record<string, OutputFieldSpec>;
+}
+
+export const OUTPUT_SCHEMA_LIBRARY: Record<string, NamedOutputSchema> = {
+  general: {
+    label: 'General research',
+    description: 'Summary, key facts and sources',
+    fields: {
+      summary: { type: 'string', description: 'Concise answer to the research objective' },
+      key_facts: { type: 'string_list', description: 'Most important findings, one per item' },
+      sources: { type: 'string_list', description: 'URLs of the sources used' },
+    },
+  },
+  company_profile: {
+    label: 'Company profile',
+    description: 'Who a company is, what it sells and who buys it',
+    fields: {
+      company: { type: 'string', description: 'Legal or commonly used company name' },
+      hq_region: { type: 'string', description: 'Country or region of the headquarters' },
+      description: { type: 'string', description: 'What the company does' },
+      products: { type: 'string_list', description: 'Main products or services' },
+      key_people: { type: 'object_list', properties: ['name', 'role'], description: 'Leadership and notable roles' },
+      funding: { type: 'string', description: 'Funding stage, amounts raised or public listing' },
+      sources: { type: 'string_list', description: 'URLs of the sources used' },
+    },
+  },
+  literature_review: {
+    label: 'Literature review',
+    description: 'Papers, findings and open questions on a topic',
+    fields: {
+      summary: { type: 'string', description: 'State of the research on the topic' },
+      papers: {
+        type: 'object_list',
+        properties: ['title', 'authors', 'year', 'url', 'key_finding'],
+        description: 'Relevant publications',
+      },
+      key_findings: { type: 'string_list', description: 'Findings the literature agrees on' },
+      research_gaps: { type: 'string_list', description: 'Open questions or conflicting results' },
+      sources: { type: 'string_list', description: 'URLs of the sources used' },
+    },
+  },
+  market_sizing: {
+    label: 'Market sizing',
+    description: 'Market size estimates, growth and players',
+    fields: {
+      market_definition: { type: 'string', description: 'Scope of the market being sized' },
+      size_estimates: {
+        type: 'object_list',
+        properties: ['segment', 'value', 'year', 'source'],
+        description: 'Market size figures with their origin',
+      },
+      growth_rate: { type: 'string', description: 'Expected growth rate (CAGR) and period' },
+      key_drivers: { type: 'string_list', description: 'Factors driving or limiting growth' },
+      key_players: { type: 'string_list', description: 'Leading companies in the market' },
+      sources: { type: 'string_list', description: 'URLs of the sources used' },
+    },
+  },
+};
+
+// Fallback types for field names the planner commonly produces without a spec
+const KNOWN_FIELD_TYPES: Record<string, OutputFieldType> = {
+  summary: 'string',
+  key_facts: 'string_list',
+  key_findings: 'string_list',
+  sources: 'string_list',
+  recommendations: 'string_list',
+  risks: 'string_list',
+};
+
+export function toFieldKey(name: string): string {
+  return name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
+
+export function fieldSpecToSchema(spec: OutputFieldSpec): JsonSchema {
+  const description = spec.description ? { description: spec.description } : {};
+  const objectOf = (properties: string[] = []): JsonSchema => ({
+    type: 'object',
+    properties: Object.fromEntries(properties.map(p => [toFieldKey(p), { type: 'string' } as JsonSchema])),
+    required: properties.map(toFieldKey),
+    additionalProperties: false,
+  });
+
+  switch (spec.type) {
+    case 'number':
+      return { type: 'number', ...description };
+    case 'boolean':
+      return { type: 'boolean', ...description };
+    case 'string_list':
+      return { type: 'array', items: { type: 'string' }, ...description };
+    case 'object_list':
+      return { type: 'array', items: objectOf(spec.properties), ...description };
+    case 'object':
+      return { ...objectOf(spec.properties), ...description };
+    default:
+      return { type: 'string', ...description };
+  }
+}
+
+export function buildOutputSchema(
+  brief: Pick<ResearchBrief, 'expected_output_fields' | 'output_template' | 'output_field_specs'>
+): OutputSchema {
+  const template = brief.output_template ? OUTPUT_SCHEMA_LIBRARY[brief.output_template] : undefined;
+  const fields: Record<string, OutputFieldSpec> = { ...(template?.fields || {}) };
+  const specs = brief.output_field_specs || {};
+
+  for (const name of brief.expected_output_fields || []) {
+    const key = toFieldKey(name);
+    if (!key) continue;
+
+    const spec = specs[name] || specs[key];
+    fields[key] = {
+      ...fields[key],
+      ...spec,
+      type: spec?.type || fields[key]?.type || KNOWN_FIELD_TYPES[key] || 'string',
+    };
+  }
+
+  if (Object.keys(fields).length === 0) {
+    Object.assign(fields, OUTPUT_SCHEMA_LIBRARY.general.fields);
+  }
+
+  // Always ask for sources so every result can be traced back
+  if (!fields.sources) {
+    fields.sources = OUTPUT_SCHEMA_LIBRARY.general.fields.sources;
+  }
+
+  const properties = Object.fromEntries(
+    Object.entries(fields).map(([key, spec]) => [key, fieldSpecToSchema(spec)])
+  );
+
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
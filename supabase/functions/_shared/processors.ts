@@ -0,0 +1,105 @@
+// Parallel task processor tiers. Higher tiers search deeper and cite more, but cost more
+// and take longer. Prices are Parallel's list prices per run; latencies are typical ranges.
+export const PROCESSOR_TIERS = ['lite', 'base', 'core', 'pro', 'ultra'] as const;
+
+export type ProcessorTier = typeof PROCESSOR_TIERS[number];
+
+export const DEFAULT_PROCESSOR: ProcessorTier = 'core';
+
+export interface ProcessorOption {
+  id: ProcessorTier;
+  label: string;
+  description: string;
+  costPerRunUsd: number;
+  latencySeconds: { min: number; max: number };
+  // Largest timebox the tier is a sensible fit for
+  maxTimeboxMinutes: number;
+  // Output fields it handles well in one run
+  maxOutputFields: number;
+}
+
+export const PROCESSORS: ProcessorOption[] = [
+  {
+    id: 'lite',
+    label: 'Lite',
+    description: 'Quick lookups of a few well-known facts',
+    costPerRunUsd: 0.005,
+    latencySeconds: { min: 5, max: 60 },
+    maxTimeboxMinutes: 1,
+    maxOutputFields: 2,
+  },
+  {
+    id: 'base',
+    label: 'Base',
+    description: 'Simple questions answered from a handful of sources',
+    costPerRunUsd: 0.01,
+    latencySeconds: { min: 15, max: 100 },
+    maxTimeboxMinutes: 2,
+    maxOutputFields: 4,
+  },
+  {
+    id: 'core',
+    label: 'Core',
+    description: 'Cross-referenced research with moderate depth',
+    costPerRunUsd: 0.025,
+    latencySeconds: { min: 60, max: 300 },
+    maxTimeboxMinutes: 5,
+    maxOutputFields: 8,
+  },
+  {
+    id: 'pro',
+    label: 'Pro',
+    description: 'Exploratory research across many sources',
+    costPerRunUsd: 0.1,
+    latencySeconds: { min: 180, max: 540 },
+    maxTimeboxMinutes: 15,
+    maxOutputFields: 15,
+  },
+  {
+    id: 'ultra',
+    label: 'Ultra',
+    description: 'Deep, multi-step investigations of hard questions',
+    costPerRunUsd: 0.3,
+    latencySeconds: { min: 300, max: 1500 },
+    maxTimeboxMinutes: Infinity,
+    maxOutputFields: Infinity,
+  },
+];
+
+export function isProcessorTier(value: unknown): value is ProcessorTier {
+  return typeof value === 'string' && (PROCESSOR_TIERS as readonly string[]).includes(value);
+}
+
+export function findProcessor(id: string | null | undefined): ProcessorOption {
+  return PROCESSORS.find(processor => processor.id === id)
+    ?? PROCESSORS.find(processor => processor.id === DEFAULT_PROCESSOR)!;
+}
+
+// Fallback when the planner doesn't pick a tier: the cheapest one that fits the brief's
+// timebox and number of output fields
+export function suggestProcessor(brief: { timebox_minutes: number; expected_output_fields: string[] }): ProcessorTier {
+  const fit = PROCESSORS.find(processor =>
+    brief.timebox_minutes <= processor.maxTimeboxMinutes &&
+    brief.expected_output_fields.length <= processor.maxOutputFields
+  );
+  return fit?.id ?? 'ultra';
+}
+
+export function formatCost(usd: number): string {
+  return usd < 0.01 ? `$${usd.toFixed(3)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+export function formatLatency({ min, max }: ProcessorOption['latencySeconds']): string {
+  return `${formatSeconds(min)}–${formatSeconds(max)}`;
+}
+
+// Planner prompt lines describing each tier
+export function describeProcessors(): string {
+  return PROCESSORS
+    .map(processor => `- ${processor.id}: ${processor.description} (${formatCost(processor.costPerRunUsd)}, ${formatLatency(processor.latencySeconds)})`)
+    .join('\n');
+}
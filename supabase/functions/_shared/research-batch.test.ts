@@ -0,0 +1,39 @@
+// Run with: deno test supabase/functions/_shared/research-batch.test.ts
+import { assertEquals } from 'https://deno.land/std@0.190.0/testing/asserts.ts';
+import { buildBatchResultsCsv, type BatchItemResult } from './research-batch.ts';
+
+function item(result: BatchItemResult['result'], overrides: Partial<BatchItemResult> = {}): BatchItemResult {
+  return { entity: 'Acme', status: 'completed', result, error: null, ...overrides };
+}
+
+Deno.test('quotes cells containing commas, quotes and line breaks', () => {
+  const csv = buildBatchResultsCsv([item({ summary: 'Makes "widgets", gadgets\nand more' })]);
+  assertEquals(csv, 'entity,status,summary,error\r\nAcme,completed,"Makes ""widgets"", gadgets\nand more",');
+});
+
+Deno.test('neutralizes cells a spreadsheet would run as a formula', () => {
+  const csv = buildBatchResultsCsv([item({
+    a: '=HYPERLINK("http://example.com/x","Click")',
+    b: '+1+1',
+    c: '-2+3',
+    d: '@SUM(A1:A2)',
+    e: '\tindented',
+    f: '\r=1',
+  })]);
+  const [, row] = csv.split('\r\n');
+
+  assertEquals(
+    row,
+    `Acme,completed,"'=HYPERLINK(""http://example.com/x"",""Click"")",'+1+1,'-2+3,'@SUM(A1:A2),'\tindented,"'\r=1",`
+  );
+});
+
+Deno.test('neutralizes formulas in the entity and error columns too', () => {
+  const csv = buildBatchResultsCsv([item(null, { entity: '=cmd', status: 'failed', error: '@bad' })]);
+  assertEquals(csv.split('\r\n')[1], "'=cmd,failed,'@bad");
+});
+
+Deno.test('leaves plain numbers, including negative ones, as numbers', () => {
+  const csv = buildBatchResultsCsv([item({ revenue: 1200.5, change: -4.2, rank: '+3' })]);
+  assertEquals(csv.split('\r\n')[1], 'Acme,completed,1200.5,-4.2,+3,');
+});
@@ -0,0 +1,132 @@
+// Batch research: one brief template run once per entity (company, product, person...).
+// research-batch creates the batch and batch-runner.ts keeps up to `concurrency` of its
+// Parallel runs in flight until every row has finished.
+import type { ResearchBrief } from './research-brief.ts';
+import { formatScalar, type ResultObject } from './result-renderer.ts';
+
+export const ENTITY_PLACEHOLDER = '{{entity}}';
+
+export const MAX_BATCH_ENTITIES = 500;
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_CONCURRENCY = 20;
+
+// paused: a budget ran out; the rows already launched still finish
+export type BatchStatus = 'running' | 'paused' | 'completed' | 'canceled';
+
+export type BatchItemStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'canceled';
+
+export const ACTIVE_BATCH_ITEM_STATUSES: BatchItemStatus[] = ['queued', 'running'];
+export const FINISHED_BATCH_ITEM_STATUSES: BatchItemStatus[] = ['completed', 'failed', 'canceled'];
+
+// Shape of a research_batch_items row as the merged results need it
+export interface BatchItemResult {
+  entity: string;
+  status: BatchItemStatus;
+  result: ResultObject | null;
+  error: string | null;
+}
+
+export function hasEntityPlaceholder(brief: Pick<ResearchBrief, 'objective'>): boolean {
+  return brief.objective.includes(ENTITY_PLACEHOLDER);
+}
+
+// The brief for one row: the placeholder filled in wherever the user can have typed it
+export function fillBriefTemplate(brief: ResearchBrief, entity: string): ResearchBrief {
+  const fill = (text: string) => text.split(ENTITY_PLACEHOLDER).join(entity);
+  const { missing_information: _missing, ...rest } = brief;
+  return {
+    ...rest,
+    objective: fill(brief.objective),
+    summary: fill(brief.summary),
+    constraints: brief.constraints.map(fill),
+  };
+}
+
+// RFC 4180-ish: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Trimmed, de-duplicated (case-insensitively) values of one column
+export function entitiesFromRows(rows: string[][], column = 0, skipHeader = false): string[] {
+  const seen = new Set<string>();
+  const entities: string[] = [];
+  for (const row of skipHeader ? rows.slice(1) : rows) {
+    const entity = row[column]?.trim();
+    if (!entity || seen.has(entity.toLowerCase())) continue;
+    seen.add(entity.toLowerCase());
+    entities.push(entity);
+  }
+  return entities;
+}
+
+// Result values come from the web. Spreadsheets run a cell starting with one of these as a
+// formula, so such cells get a leading ' to be read as text; plain numbers are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function csvCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+// One row per entity; result fields become columns in the order they first appear
+export function buildBatchResultsCsv(items: BatchItemResult[]): string {
+  const fields: string[] = [];
+  for (const item of items) {
+    for (const key of Object.keys(item.result ?? {})) {
+      if (!fields.includes(key)) fields.push(key);
+    }
+  }
+
+  return toCsv([
+    ['entity', 'status', ...fields, 'error'],
+    ...items.map(item => [
+      item.entity,
+      item.status,
+      ...fields.map(field => formatScalar(item.result?.[field] ?? null)),
+      item.error ?? '',
+    ]),
+  ]);
+}
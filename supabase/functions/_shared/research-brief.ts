@@ -0,0 +1,150 @@
+// The research brief chat-plan drafts and research-start launches. The zod schema is the
+// source of truth for its shape: chat-plan validates the model's reply with it and the
+// frontend validates chat-plan's response (edge functions resolve `zod` via import_map.json).
+import { z } from 'zod';
+import { PROCESSOR_TIERS } from './processors.ts';
+
+const OUTPUT_FIELD_TYPES = ['string', 'number', 'boolean', 'string_list', 'object_list', 'object'] as const;
+
+export const outputFieldSpecSchema = z.object({
+  type: z.enum(OUTPUT_FIELD_TYPES).optional(),
+  description: z.string().optional(),
+  // Property names for `object` fields, column names for `object_list` fields
+  properties: z.array(z.string()).optional(),
+});
+
+// The model sends field specs as a list (response schemas can't describe free-form keys);
+// they're stored keyed by field name
+const outputFieldSpecsSchema = z.preprocess(
+  value => Array.isArray(value)
+    ? Object.fromEntries(
+        value
+          .filter(entry => typeof entry === 'object' && entry !== null && typeof entry.field === 'string')
+          .map(({ field, ...spec }) => [field, spec])
+      )
+    : value,
+  z.record(outputFieldSpecSchema)
+);
+
+// A follow-up question the planner wants answered before the brief is launched
+export const missingInformationSchema = z.object({
+  question: z.string().trim().min(1),
+  // Short suggested answers, shown as quick replies
+  options: z.array(z.string()).default([]),
+});
+
+export type MissingInformation = z.infer<typeof missingInformationSchema>;
+
+export interface ClarificationAnswer {
+  question: string;
+  answer: string;
+}
+
+export const clarificationAnswersSchema = z.array(z.object({
+  question: z.string(),
+  answer: z.string(),
+}));
+
+// Answers from every round so far; a question asked again keeps its latest answer
+export function mergeClarificationAnswers(
+  previous: ClarificationAnswer[],
+  next: ClarificationAnswer[]
+): ClarificationAnswer[] {
+  const answered = next.filter(({ answer }) => answer.trim());
+  const replaced = new Set(answered.map(({ question }) => question));
+  return [...previous.filter(({ question }) => !replaced.has(question)), ...answered];
+}
+
+// More than this and the user is filling in a form rather than answering a quick follow-up
+export const MAX_CLARIFYING_QUESTIONS = 3;
+
+export const researchBriefSchema = z.object({
+  objective: z.string().trim().min(1, 'objective must not be empty'),
+  constraints: z.array(z.string()),
+  target_sources: z.array(z.string()),
+  disallowed_sources: z.array(z.string()),
+  timebox_minutes: z.number().positive(),
+  expected_output_fields: z.array(z.string()).min(1, 'expected_output_fields must list at least one field'),
+  summary: z.string(),
+  // Named schema from OUTPUT_SCHEMA_LIBRARY to start the output schema from
+  output_template: z.string().optional(),
+  // Optional per-field type/description hints, keyed by expected_output_fields entry
+  output_field_specs: outputFieldSpecsSchema.optional(),
+  // Parallel processor tier to run on; research-start falls back to DEFAULT_PROCESSOR
+  processor: z.enum(PROCESSOR_TIERS).optional(),
+  // Gaps (geography, timeframe, entities...) the user should fill in before launching
+  missing_information: z.array(missingInformationSchema)
+    .transform(questions => questions.slice(0, MAX_CLARIFYING_QUESTIONS))
+    .optional(),
+});
+
+export type ResearchBrief = z.infer<typeof researchBriefSchema>;
+
+export function formatClarificationAnswers(answers: ClarificationAnswer[]): string {
+  return answers.map(({ question, answer }) => `- ${question}\n  ${answer}`).join('\n');
+}
+
+// The same shape in Gemini's responseSchema dialect (an OpenAPI subset), so the model can only
+// produce briefs that parse. Keep in step with researchBriefSchema.
+export const RESEARCH_BRIEF_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    objective: { type: 'STRING', description: 'Clear, specific research objective' },
+    constraints: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Limitations or requirements the user mentioned' },
+    target_sources: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Preferred kinds of sources' },
+    disallowed_sources: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Kinds of sources to avoid' },
+    timebox_minutes: { type: 'INTEGER', description: 'Estimated research time in minutes' },
+    expected_output_fields: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Fields the result should contain' },
+    summary: { type: 'STRING', description: 'One-sentence description of the research' },
+    output_template: { type: 'STRING', description: 'Closest reusable output template, if any' },
+    processor: { type: 'STRING', enum: [...PROCESSOR_TIERS], description: 'Cheapest processor tier that can do the research well' },
+    output_field_specs: {
+      type: 'ARRAY',
+      description: 'Optional type hints for expected_output_fields',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          field: { type: 'STRING' },
+          type: { type: 'STRING', enum: [...OUTPUT_FIELD_TYPES] },
+          description: { type: 'STRING' },
+          properties: { type: 'ARRAY', items: { type: 'STRING' } },
+        },
+        required: ['field', 'type'],
+      },
+    },
+    missing_information: {
+      type: 'ARRAY',
+      description: 'Questions to ask before launching; empty when the request is specific enough',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          question: { type: 'STRING' },
+          options: { type: 'ARRAY', items: { type: 'STRING' }, description: '2-4 short suggested answers' },
+        },
+        required: ['question', 'options'],
+      },
+    },
+  },
+  required: [
+    'objective',
+    'constraints',
+    'target_sources',
+    'disallowed_sources',
+    'timebox_minutes',
+    'expected_output_fields',
+    'summary',
+  ],
+  propertyOrdering: [
+    'objective',
+    'summary',
+    'constraints',
+    'target_sources',
+    'disallowed_sources',
+    'timebox_minutes',
+    'expected_output_fields',
+    'output_field_specs',
+    'output_template',
+    'processor',
+    'missing_information',
+  ],
+};
@@ -0,0 +1,90 @@
+// Condenses a completed research message into a compact block the chat model can read:
+// a summary, key facts and the most cited sources, numbered so replies can cite them.
+import { buildSourceIndex, normalizeBasis } from './citations.ts';
+import { estimateTokens } from './context-window.ts';
+import { formatScalar, humanizeFieldName, isResultObject, type ResultValue } from './result-renderer.ts';
+
+export interface ResearchContextOptions {
+  // Budget for one result block
+  maxTokens: number;
+  maxFacts: number;
+  maxSources: number;
+}
+
+export const DEFAULT_RESEARCH_CONTEXT: ResearchContextOptions = {
+  maxTokens: 1500,
+  maxFacts: 12,
+  maxSources: 5,
+};
+
+const SUMMARY_FIELDS = ['summary', 'executive_summary', 'overview', 'answer'];
+const MAX_FACT_LENGTH = 300;
+
+function truncate(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat;
+}
+
+// One "Field: value" line per scalar or list of scalars; lists of objects become one line per item
+function factLines(key: string, value: ResultValue): string[] {
+  const label = humanizeFieldName(key);
+  if (Array.isArray(value) && value.some(isResultObject)) {
+    return value.map(item => `${label}: ${truncate(formatScalar(item), MAX_FACT_LENGTH)}`);
+  }
+  if (isResultObject(value)) {
+    return Object.entries(value).flatMap(([childKey, childValue]) =>
+      childValue === null ? [] : factLines(`${key} ${childKey}`, childValue)
+    );
+  }
+  const text = formatScalar(value);
+  return text ? [`${label}: ${truncate(text, MAX_FACT_LENGTH)}`] : [];
+}
+
+// Returns null for research messages that carry no results (started, failed, ...)
+export function buildResearchContextBlock(
+  metadata: Record<string, unknown> | null,
+  options: ResearchContextOptions = DEFAULT_RESEARCH_CONTEXT
+): string | null {
+  if (!metadata || metadata.status !== 'completed' || !isResultObject(metadata.results)) {
+    return null;
+  }
+
+  const results = metadata.results;
+  const summaryKey = SUMMARY_FIELDS.find(key => typeof results[key] === 'string');
+  const facts = Object.entries(results)
+    .filter(([key, value]) => key !== summaryKey && value !== null)
+    .flatMap(([key, value]) => factLines(key, value))
+    .slice(0, options.maxFacts);
+
+  // Sources backing the most fields first
+  const sources = buildSourceIndex(normalizeBasis(metadata.basis))
+    .sort((a, b) => b.fields.length - a.fields.length || a.number - b.number)
+    .slice(0, options.maxSources);
+
+  const header = `[Research result${metadata.run_id ? ` ${metadata.run_id}` : ''}] Findings from a completed research task; cite sources by their number, e.g. [1].`;
+  const sections = [header];
+  if (summaryKey) sections.push(`Summary: ${truncate(results[summaryKey] as string, 1200)}`);
+
+  let block = sections.join('\n');
+  const append = (line: string) => {
+    const next = `${block}\n${line}`;
+    if (estimateTokens(next) > options.maxTokens) return false;
+    block = next;
+    return true;
+  };
+
+  if (facts.length > 0 && append('Key facts:')) {
+    for (const fact of facts) {
+      if (!append(`- ${fact}`)) break;
+    }
+  }
+
+  if (sources.length > 0 && append('Top sources:')) {
+    for (const source of sources) {
+      const label = source.title ? `${source.title} — ${source.url}` : source.url;
+      if (!append(`[${source.number}] ${label}`)) break;
+    }
+  }
+
+  return block;
+}
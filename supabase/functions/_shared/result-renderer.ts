@@ -0,0 +1,131 @@
+// Walks a research output against its JSON Schema. The markdown renderer is used by
+// parallel-webhook for the chat message; the helpers are shared with the frontend view.
+import type { JsonSchema } from './output-schema.ts';
+
+export type ResultValue = string | number | boolean | null | ResultValue[] | { [key: string]: ResultValue };
+export type ResultObject = { [key: string]: ResultValue };
+
+export function humanizeFieldName(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, c => c.toUpperCase());
+}
+
+export function isResultObject(value: unknown): value is ResultObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Parallel returns `{ type: 'json', content, basis }`; older rows stored the content directly
+export function extractOutputContent(output: unknown): ResultObject | null {
+  if (!isResultObject(output)) return null;
+  if (output.type === 'json' && isResultObject(output.content)) return output.content;
+  if (output.type === 'text' && typeof output.content === 'string') return { summary: output.content };
+  return output;
+}
+
+export function inferSchema(value: unknown): JsonSchema {
+  if (Array.isArray(value)) {
+    const objectItem = value.find(isResultObject);
+    return { type: 'array', items: objectItem ? inferSchema(objectItem) : { type: 'string' } };
+  }
+  if (isResultObject(value)) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(value).map(([k, v]) => [k, inferSchema(v)])),
+    };
+  }
+  if (typeof value === 'number') return { type: 'number' };
+  if (typeof value === 'boolean') return { type: 'boolean' };
+  return { type: 'string' };
+}
+
+// Ordered (key, schema) pairs: schema properties first, then any extra keys the output carried
+export function resolveFields(value: ResultObject, schema?: JsonSchema): Array<[string, JsonSchema]> {
+  const fields: Array<[string, JsonSchema]> = [];
+  const declared = schema?.properties || {};
+
+  for (const [key, fieldSchema] of Object.entries(declared)) {
+    if (value[key] !== undefined && value[key] !== null) fields.push([key, fieldSchema]);
+  }
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (!(key in declared) && fieldValue !== undefined && fieldValue !== null) {
+      fields.push([key, inferSchema(fieldValue)]);
+    }
+  }
+  return fields;
+}
+
+export function tableColumns(rows: ResultValue[], itemSchema?: JsonSchema): string[] {
+  const columns = Object.keys(itemSchema?.properties || {});
+  for (const row of rows) {
+    if (!isResultObject(row)) continue;
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+export function formatScalar(value: ResultValue): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatScalar).join(', ');
+  if (isResultObject(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeTableCell(value: ResultValue): string {
+  return formatScalar(value).replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+function renderValue(value: ResultValue, schema: JsonSchema, depth: number): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '_None found._\n';
+
+    const isObjectList = schema.items?.type === 'object' || value.some(isResultObject);
+    if (!isObjectList) {
+      return value.map(item => `- ${formatScalar(item)}`).join('\n') + '\n';
+    }
+
+    const columns = tableColumns(value, schema.items);
+    const header = `| ${columns.map(humanizeFieldName).join(' | ')} |`;
+    const divider = `| ${columns.map(() => '---').join(' | ')} |`;
+    const rows = value.map(row =>
+      `| ${columns.map(col => (isResultObject(row) ? escapeTableCell(row[col]) : '')).join(' | ')} |`
+    );
+    return [header, divider, ...rows].join('\n') + '\n';
+  }
+
+  if (isResultObject(value)) {
+    return renderSections(value, schema, depth + 1);
+  }
+
+  return `${formatScalar(value)}\n`;
+}
+
+function renderSections(
+  value: ResultObject,
+  schema: JsonSchema | undefined,
+  depth: number,
+  footnotes: Record<string, number[]> = {}
+): string {
+  const heading = '#'.repeat(Math.min(depth, 6));
+  return resolveFields(value, schema)
+    .map(([key, fieldSchema]) => {
+      const markers = (footnotes[key] || []).map(n => ` [${n}]`).join('');
+      return `${heading} ${humanizeFieldName(key)}${markers}\n\n${renderValue(value[key], fieldSchema, depth)}`;
+    })
+    .join('\n');
+}
+
+// `footnotes` maps top-level field names to citation numbers shown after their heading
+export function renderResultMarkdown(
+  output: unknown,
+  schema?: JsonSchema,
+  footnotes?: Record<string, number[]>
+): string {
+  const content = extractOutputContent(output);
+  if (!content) return '';
+  return renderSections(content, schema, 2, footnotes);
+}
@@ -0,0 +1,244 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { buildBranchPath, resolveLeafId } from './history.ts';
+import type { LLMMessage, LLMProvider } from './llm.ts';
+import {
+  buildSummaryPrompt,
+  chunkTurns,
+  DEFAULT_CONTEXT_WINDOW,
+  estimateTokens,
+  splitContextWindow,
+  type ContextTurn,
+  type ContextWindowOptions,
+} from './context-window.ts';
+import { buildResearchContextBlock } from './research-context.ts';
+import { resolveModelSettings, type ModelPurpose, type ModelSettings } from './model-config.ts';
+
+export interface HistoryMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// Loads the session's messages along one branch, oldest first. Defaults to the active branch;
+// pass leafId to read another one (e.g. the history before a reply being regenerated).
+export async function loadBranchHistory(
+  supabase: SupabaseClient,
+  sessionId: string,
+  leafId?: string | null
+): Promise<HistoryMessage[]> {
+  const [{ data: messages, error: messagesError }, { data: session, error: sessionError }] = await Promise.all([
+    supabase
+      .from('messages')
+      .select('id, parent_message_id, role, content, metadata, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('chat_sessions')
+      .select('active_leaf_id')
+      .eq('id', sessionId)
+      .single(),
+  ]);
+
+  if (messagesError || sessionError) {
+    console.error('Error fetching messages:', messagesError || sessionError);
+    throw messagesError || sessionError;
+  }
+
+  const all = (messages || []) as HistoryMessage[];
+  const leaf = leafId === undefined ? resolveLeafId(all, session?.active_leaf_id) : leafId;
+  return buildBranchPath(all, leaf);
+}
+
+// The message a run launched now should follow. Read at launch, because results arrive
+// later and must stay on this branch even if the user has switched to another.
+export async function loadActiveLeafId(supabase: SupabaseClient, sessionId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('active_leaf_id')
+    .eq('id', sessionId)
+    .single();
+
+  if (error) throw error;
+  return data?.active_leaf_id ?? null;
+}
+
+// The session's model settings (chat_sessions.model_settings) and system prompt preset,
+// applied over the defaults for purpose
+export async function loadModelSettings(
+  supabase: SupabaseClient,
+  sessionId: string,
+  purpose: ModelPurpose
+): Promise<ModelSettings> {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('user_id, model_settings, preset:system_prompt_presets(user_id, instruction)')
+    .eq('id', sessionId)
+    .single();
+
+  if (error) {
+    console.error('Error loading model settings:', error);
+    throw error;
+  }
+
+  // Built-in presets, or the session owner's own; never someone else's
+  const preset = session?.preset as { user_id: string | null; instruction: string } | null;
+  const presetInstruction = preset && (preset.user_id === null || preset.user_id === session.user_id)
+    ? preset.instruction
+    : null;
+
+  return resolveModelSettings(purpose, session?.model_settings, presetInstruction);
+}
+
+interface SessionSummary {
+  history_summary: string | null;
+  history_summary_through: string | null;
+}
+
+export interface ChatContext {
+  // The full branch, including turns that were summarized
+  history: HistoryMessage[];
+  messages: LLMMessage[];
+  // Turns folded into the summary instead of being sent verbatim
+  summarizedTurns: number;
+  estimatedTokens: number;
+}
+
+const SUMMARY_CHUNK_TOKENS = 24000;
+
+export function contextWindowFromEnv(): ContextWindowOptions {
+  const maxTokens = Number(Deno.env.get('CHAT_CONTEXT_MAX_TOKENS'));
+  const minRecentTurns = Number(Deno.env.get('CHAT_CONTEXT_MIN_RECENT_TURNS'));
+  return {
+    maxTokens: maxTokens > 0 ? maxTokens : DEFAULT_CONTEXT_WINDOW.maxTokens,
+    minRecentTurns: minRecentTurns > 0 ? minRecentTurns : DEFAULT_CONTEXT_WINDOW.minRecentTurns,
+  };
+}
+
+async function summarizeTurns(
+  summarizer: LLMProvider,
+  previousSummary: string | null,
+  turns: ContextTurn[]
+): Promise<string> {
+  let summary = previousSummary;
+
+  for (const chunk of chunkTurns(turns, SUMMARY_CHUNK_TOKENS)) {
+    const response = await summarizer.chat([{ role: 'user', content: buildSummaryPrompt(summary, chunk) }]);
+    const text = response.text.trim();
+    if (!text) {
+      throw new Error(`${summarizer.model} returned an empty conversation summary`);
+    }
+    summary = text;
+  }
+
+  return summary || '';
+}
+
+// Returns the summary of `older`, reusing the stored one when it already covers those turns.
+// A stored summary that ends partway through `older` is rolled forward with just the new
+// turns; one from another branch (or none at all) is rebuilt from scratch.
+async function summaryFor(
+  supabase: SupabaseClient,
+  summarizer: LLMProvider,
+  sessionId: string,
+  older: ContextTurn[]
+): Promise<string> {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('history_summary, history_summary_through')
+    .eq('id', sessionId)
+    .single();
+
+  if (error) {
+    console.error('Error loading conversation summary:', error);
+    throw error;
+  }
+
+  const stored = session as SessionSummary;
+  const lastOlder = older[older.length - 1];
+  const coveredIndex = stored.history_summary
+    ? older.findIndex(turn => turn.id === stored.history_summary_through)
+    : -1;
+
+  if (stored.history_summary && coveredIndex === older.length - 1) {
+    return stored.history_summary;
+  }
+
+  const rolling = coveredIndex >= 0;
+  const pending = rolling ? older.slice(coveredIndex + 1) : older;
+  console.log(`📝 ${rolling ? 'Extending' : 'Rebuilding'} conversation summary with ${pending.length} turns`);
+
+  const summary = await summarizeTurns(summarizer, rolling ? stored.history_summary : null, pending);
+
+  const { error: updateError } = await supabase
+    .from('chat_sessions')
+    .update({
+      history_summary: summary,
+      history_summary_through: lastOlder.id,
+      history_summary_updated_at: new Date().toISOString(),
+    })
+    .eq('id', sessionId);
+
+  if (updateError) {
+    // The summary is still usable for this request; it will be rebuilt next time
+    console.error('❌ Error saving conversation summary:', updateError);
+  }
+
+  return summary;
+}
+
+// Chat turns verbatim, completed research results as condensed context blocks; progress,
+// system and failed-research messages are left out
+function toContextTurns(history: HistoryMessage[]): ContextTurn[] {
+  return history.flatMap((msg): ContextTurn[] => {
+    if (msg.role === 'user' || msg.role === 'assistant') {
+      return [{ id: msg.id, role: msg.role, content: msg.content }];
+    }
+    if (msg.role === 'research') {
+      const block = buildResearchContextBlock(msg.metadata);
+      return block ? [{ id: msg.id, role: 'research', content: block }] : [];
+    }
+    return [];
+  });
+}
+
+// Research results read as the model's own findings
+function toLLMMessages(turns: ContextTurn[]): LLMMessage[] {
+  return turns.map(turn => ({ role: turn.role === 'user' ? 'user' : 'assistant', content: turn.content }));
+}
+
+// History for chat-send and chat-plan: the branch's recent turns verbatim within the token
+// budget, preceded by a rolling summary of everything older (written by `summarizer`).
+export async function buildChatContext(
+  supabase: SupabaseClient,
+  summarizer: LLMProvider,
+  sessionId: string,
+  leafId?: string | null,
+  options: ContextWindowOptions = contextWindowFromEnv()
+): Promise<ChatContext> {
+  const history = await loadBranchHistory(supabase, sessionId, leafId);
+  const turns = toContextTurns(history);
+
+  const { older, recent, recentTokens } = splitContextWindow(turns, options);
+  const messages = toLLMMessages(recent);
+
+  if (older.length === 0) {
+    return { history, messages, summarizedTurns: 0, estimatedTokens: recentTokens };
+  }
+
+  const summary = await summaryFor(supabase, summarizer, sessionId, older);
+  const summaryText = `Summary of our earlier conversation, for context:\n\n${summary}`;
+
+  // Keep the roles alternating: the summary is a user turn, acknowledged if a user turn follows
+  const preamble: LLMMessage[] = [{ role: 'user', content: summaryText }];
+  if (messages[0]?.role === 'user') {
+    preamble.push({ role: 'assistant', content: 'Understood, I have the earlier context.' });
+  }
+
+  const estimatedTokens = recentTokens + estimateTokens(summaryText);
+  console.log('🧮 Context window:', { summarizedTurns: older.length, recentTurns: recent.length, estimatedTokens });
+
+  return { history, messages: [...preamble, ...messages], summarizedTurns: older.length, estimatedTokens };
+}
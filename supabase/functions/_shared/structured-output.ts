@@ -0,0 +1,71 @@
+// Asks the model for JSON matching a zod schema. If the reply doesn't parse or validate, the
+// model gets one more try with the problems listed, then the error goes to the caller.
+import type { z } from 'zod';
+import {
+  InvalidJsonReplyError,
+  parseJsonReply,
+  type LLMJsonOptions,
+  type LLMMessage,
+  type LLMProvider,
+} from './llm.ts';
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+async function attempt<T extends z.ZodTypeAny>(
+  llm: LLMProvider,
+  messages: LLMMessage[],
+  schema: T,
+  options: LLMJsonOptions
+): Promise<{ value: z.infer<T> } | { reply: string; issues: string }> {
+  let raw: unknown;
+  try {
+    raw = parseJsonReply((await llm.generateJson(messages, options)).text);
+  } catch (error) {
+    if (error instanceof InvalidJsonReplyError) {
+      return { reply: error.reply, issues: `- ${error.message}` };
+    }
+    throw error;
+  }
+
+  const parsed = schema.safeParse(raw);
+  if (parsed.success) return { value: parsed.data };
+  return { reply: JSON.stringify(raw), issues: formatZodIssues(parsed.error) };
+}
+
+export async function generateStructured<T extends z.ZodTypeAny>(
+  llm: LLMProvider,
+  messages: LLMMessage[],
+  schema: T,
+  options: LLMJsonOptions = {}
+): Promise<z.infer<T>> {
+  const first = await attempt(llm, messages, schema, options);
+  if ('value' in first) return first.value;
+
+  console.warn('⚠️ Structured reply failed validation, asking for a repair:', first.issues);
+
+  const repair: LLMMessage[] = [
+    ...messages,
+    { role: 'assistant', content: first.reply },
+    {
+      role: 'user',
+      content: `That JSON doesn't match the required format:\n${first.issues}\n\nReturn the corrected JSON object only, with no other text.`,
+    },
+  ];
+
+  const second = await attempt(llm, repair, schema, options);
+  if ('value' in second) return second.value;
+
+  console.error('❌ Repaired reply still invalid:', second.issues);
+  throw new StructuredOutputError('Model reply did not match the expected format', second.issues);
+}
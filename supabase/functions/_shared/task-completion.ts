@@ -0,0 +1,175 @@
+// The status-transition path shared by parallel-webhook and research-reconcile.
+// Safe to call more than once for the same run: terminal transitions go through the
+// finalize_task_run RPC, which flips the status and writes the result in one transaction,
+// so only the first caller posts to chat and a failed write is retried in full.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import type { ParallelService } from './parallel.ts';
+import { extractOutputContent, renderResultMarkdown } from './result-renderer.ts';
+import { buildSourceIndex, fieldFootnotes, normalizeBasis, renderCitationsMarkdown } from './citations.ts';
+import { advanceBatch, updateBatchItemStatus } from './batch-runner.ts';
+import type { BatchItemStatus } from './research-batch.ts';
+import type { ResultObject } from './result-renderer.ts';
+
+export const ACTIVE_STATUSES = ['queued', 'running'];
+export const TERMINAL_STATUSES = ['completed', 'failed', 'canceled'];
+
+// Parallel only moves forward through these; anything that goes backwards arrived late
+const STATUS_ORDER = ['queued', 'running'];
+
+// Parallel's status names mapped onto the ones the task_runs status check allows.
+// A run that is still cancelling or waiting on input counts as running until it settles.
+const UPSTREAM_STATUSES: Record<string, string> = {
+  queued: 'queued',
+  running: 'running',
+  action_required: 'running',
+  cancelling: 'running',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'canceled',
+  canceled: 'canceled',
+};
+
+export function normalizeRunStatus(status: string): string | null {
+  return UPSTREAM_STATUSES[status] ?? null;
+}
+
+export type TransitionOutcome = 'updated' | 'completed' | 'already_processed' | 'out_of_order' | 'ignored' | 'not_found';
+
+export async function applyTaskRunStatus(
+  supabase: SupabaseClient,
+  parallel: ParallelService,
+  runId: string,
+  upstreamStatus: string
+): Promise<TransitionOutcome> {
+  const status = normalizeRunStatus(upstreamStatus);
+  if (!status) {
+    console.warn(`⚠️ Ignoring unknown status "${upstreamStatus}" for task ${runId}`);
+    return 'ignored';
+  }
+
+  const { data: taskData, error: taskError } = await supabase
+    .from('task_runs')
+    .select('session_id, status, metadata')
+    .eq('parallel_run_id', runId)
+    .single();
+
+  if (taskError || !taskData) {
+    console.error('❌ Task run not found:', { runId, error: taskError });
+    return 'not_found';
+  }
+
+  if (TERMINAL_STATUSES.includes(taskData.status)) {
+    console.log(`⏭️ Task ${runId} already ${taskData.status}, skipping ${status}`);
+    return TERMINAL_STATUSES.includes(status) ? 'already_processed' : 'out_of_order';
+  }
+
+  if (!TERMINAL_STATUSES.includes(status)) {
+    if (STATUS_ORDER.indexOf(status) <= STATUS_ORDER.indexOf(taskData.status)) {
+      console.log(`⏭️ Task ${runId} is ${taskData.status}, ignoring late ${status}`);
+      return 'out_of_order';
+    }
+
+    const { error: updateError } = await supabase
+      .from('task_runs')
+      .update({ status })
+      .eq('parallel_run_id', runId)
+      .in('status', ACTIVE_STATUSES);
+
+    if (updateError) {
+      console.error('❌ Database update error:', updateError);
+      throw updateError;
+    }
+
+    if (taskData.metadata?.batch_item_id) {
+      await updateBatchItemStatus(supabase, taskData.metadata.batch_item_id, status as BatchItemStatus);
+    }
+
+    console.log(`✅ Updated task ${runId} to status: ${status}`);
+    return 'updated';
+  }
+
+  // Fetch results before finalizing the run so a failed fetch can be retried later
+  let update: { result?: string; basis?: unknown; metadata?: Record<string, unknown> } = {};
+  let message: { role: string; content: string; metadata: Record<string, unknown> };
+  let output: ResultObject | null = null;
+
+  if (status === 'completed') {
+    console.log('Task completed, fetching results from Parallel API');
+    const resultData = await parallel.getTaskResult(runId);
+
+    const outputSchema = taskData.metadata?.output_schema;
+
+    // Keep the per-field basis so every result can be traced back to its sources
+    const basis = normalizeBasis(resultData.output?.basis);
+    const citationSources = buildSourceIndex(basis);
+
+    update = {
+      result: JSON.stringify(resultData.output),
+      basis,
+      metadata: { ...taskData.metadata, completed_at: new Date().toISOString() },
+    };
+
+    // Format results for chat display by walking the output against its schema
+    output = extractOutputContent(resultData.output);
+    let formattedContent = '✅ **Research Complete**\n\n';
+    formattedContent += renderResultMarkdown(output, outputSchema, fieldFootnotes(citationSources)) || '_The research task returned no structured output._\n';
+    const citationsMarkdown = renderCitationsMarkdown(citationSources);
+    if (citationsMarkdown) {
+      formattedContent += `\n${citationsMarkdown}`;
+    }
+    formattedContent += `\n*Task ID: ${runId}*`;
+
+    message = {
+      role: 'research',
+      content: formattedContent,
+      metadata: {
+        run_id: runId,
+        status: 'completed',
+        results: output,
+        output_schema: outputSchema,
+        basis
+      }
+    };
+  } else {
+    message = {
+      role: 'system',
+      content: `❌ **Research ${status.charAt(0).toUpperCase() + status.slice(1)}**\n\nThe research task encountered an issue and could not be completed.\n\n*Task ID: ${runId}*\n\nPlease try again with a different query or check the Parallel.ai service status.`,
+      metadata: {
+        run_id: runId,
+        status,
+        error: true
+      }
+    };
+  }
+
+  // Flip the status and post the message (or record the batch row) together
+  const { data: finalized, error: finalizeError } = await supabase.rpc('finalize_task_run', {
+    p_run_id: runId,
+    p_status: status,
+    p_result: update.result ?? null,
+    p_basis: update.basis ?? null,
+    p_metadata: update.metadata ?? null,
+    p_message: message,
+    p_output: output,
+  });
+
+  if (finalizeError) {
+    console.error('❌ Error finalizing task run:', finalizeError);
+    throw finalizeError;
+  }
+
+  if (!finalized) {
+    console.log(`⏭️ Task ${runId} was finalized concurrently, skipping message`);
+    return 'already_processed';
+  }
+
+  // The row's slot is free now, so launch the next pending one
+  if (taskData.metadata?.batch_id) {
+    await advanceBatch(supabase, parallel, taskData.metadata.batch_id);
+    console.log(`✅ Task ${runId} finalized as ${status} for batch ${taskData.metadata.batch_id}`);
+    return 'completed';
+  }
+
+  console.log(`✅ Task ${runId} finalized as ${status}`);
+  return 'completed';
+}
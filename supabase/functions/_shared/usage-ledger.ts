@@ -0,0 +1,210 @@
+// Records spend in usage_ledger and enforces the daily and monthly budgets in usage_budgets.
+// USAGE_DAILY_BUDGET_USD / USAGE_MONTHLY_BUDGET_USD are a ceiling for every user: a user's
+// own budget can only be stricter. Users are also held to the budget of every team they
+// have joined. Model calls are charged through meteredProvider, so every call an edge
+// function makes is recorded, not just the reply the user sees.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { estimateTokens } from './context-window.ts';
+import type { LLMJsonOptions, LLMMessage, LLMProvider, LLMRequestOptions, LLMResult, LLMUsage } from './llm.ts';
+import {
+  BUDGET_PERIODS,
+  describeExceededBudget,
+  limitFor,
+  llmCostUsd,
+  periodStart,
+  stricterLimits,
+  type BudgetLimits,
+  type BudgetStatus,
+  type UsageEntry,
+} from './usage.ts';
+
+export class BudgetExceededError extends Error {
+  status = 402;
+  budget: BudgetStatus;
+
+  constructor(budget: BudgetStatus) {
+    super(describeExceededBudget(budget));
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+  }
+}
+
+export function budgetErrorResponse(error: BudgetExceededError, corsHeaders: Record<string, string>): Response {
+  console.warn(`💸 ${error.message}`);
+  return new Response(JSON.stringify({ error: error.message, budget: error.budget }), {
+    status: error.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export interface UsageRecord extends Omit<UsageEntry, 'created_at'> {
+  user_id: string;
+  session_id?: string | null;
+}
+
+// Best effort: a failed write is logged, never allowed to fail the request that incurred it
+export async function recordUsage(supabase: SupabaseClient, record: UsageRecord): Promise<void> {
+  const { error } = await supabase.from('usage_ledger').insert(record);
+  if (error) {
+    console.error('❌ Error recording usage:', error);
+    return;
+  }
+  console.log('🧾 Recorded usage:', { kind: record.kind, model: record.model, processor: record.processor, cost_usd: record.cost_usd });
+}
+
+// For calls the backend didn't report on, e.g. a stream stopped before its final chunk
+function estimateUsage(messages: LLMMessage[], reply: string): LLMUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// Wraps a provider so each call it makes is charged to `owner`: summaries and structured
+// output repairs included. A stopped or failed stream is charged an estimate for the prompt
+// and the text generated before it ended.
+export function meteredProvider(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  owner: Pick<UsageRecord, 'user_id' | 'session_id'>
+): LLMProvider {
+  const charge = (usage: LLMUsage) => recordUsage(supabase, {
+    ...owner,
+    kind: 'llm',
+    provider: llm.name,
+    model: llm.model,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    cost_usd: llmCostUsd(llm.model, usage.promptTokens, usage.completionTokens),
+  });
+
+  const metered = async (
+    messages: LLMMessage[],
+    options: LLMRequestOptions | undefined,
+    call: (onChunk: (text: string) => void) => Promise<LLMResult>
+  ): Promise<LLMResult> => {
+    let partial = '';
+    try {
+      const result = await call(text => { partial += text; });
+      await charge(result.usage ?? estimateUsage(messages, result.text));
+      return result;
+    } catch (error) {
+      // A request rejected before generating anything isn't billed by the backend
+      if (partial || options?.signal?.aborted) {
+        await charge(estimateUsage(messages, partial));
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name: llm.name,
+    model: llm.model,
+    chat: (messages, options) => metered(messages, options, () => llm.chat(messages, options)),
+    stream: (messages, onChunk, options) => metered(messages, options, track => llm.stream(
+      messages,
+      text => {
+        track(text);
+        onChunk(text);
+      },
+      options
+    )),
+    generateJson: (messages, options?: LLMJsonOptions) => metered(messages, options, () => llm.generateJson(messages, options)),
+  };
+}
+
+function envLimit(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+interface BudgetScope {
+  scope: BudgetStatus['scope'];
+  name: string;
+  userIds: string[];
+  limits: BudgetLimits;
+}
+
+async function loadBudgetScopes(supabase: SupabaseClient, userId: string): Promise<BudgetScope[]> {
+  const { data: own, error: ownError } = await supabase
+    .from('usage_budgets')
+    .select('daily_limit_usd, monthly_limit_usd')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (ownError) throw ownError;
+
+  const scopes: BudgetScope[] = [{
+    scope: 'user',
+    name: 'Your',
+    userIds: [userId],
+    limits: stricterLimits(own ?? { daily_limit_usd: null, monthly_limit_usd: null }, {
+      daily_limit_usd: envLimit('USAGE_DAILY_BUDGET_USD'),
+      monthly_limit_usd: envLimit('USAGE_MONTHLY_BUDGET_USD'),
+    }),
+  }];
+
+  // Pending invitations don't count until the user accepts them
+  const { data: memberships, error: membershipError } = await supabase
+    .from('team_members')
+    .select('team_id')
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null);
+  if (membershipError) throw membershipError;
+
+  const teamIds = (memberships || []).map(membership => membership.team_id);
+  if (teamIds.length === 0) return scopes;
+
+  const { data: teams, error: teamError } = await supabase
+    .from('teams')
+    .select('id, name, team_members(user_id, accepted_at), usage_budgets(daily_limit_usd, monthly_limit_usd)')
+    .in('id', teamIds);
+  if (teamError) throw teamError;
+
+  for (const team of teams || []) {
+    const budget = Array.isArray(team.usage_budgets) ? team.usage_budgets[0] : team.usage_budgets;
+    if (!budget) continue;
+    scopes.push({
+      scope: 'team',
+      name: team.name,
+      userIds: (team.team_members || [])
+        .filter((member: { accepted_at: string | null }) => member.accepted_at)
+        .map((member: { user_id: string }) => member.user_id),
+      limits: budget,
+    });
+  }
+
+  return scopes;
+}
+
+// Throws BudgetExceededError if any budget is used up, or would be by `pendingCostUsd`
+export async function assertWithinBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  pendingCostUsd = 0
+): Promise<void> {
+  const scopes = await loadBudgetScopes(supabase, userId);
+
+  for (const scope of scopes) {
+    for (const period of BUDGET_PERIODS) {
+      const limit = limitFor(scope.limits, period);
+      if (limit === null || limit === undefined) continue;
+
+      const { data: spent, error } = await supabase.rpc('usage_spend', {
+        p_user_ids: scope.userIds,
+        p_since: periodStart(period).toISOString(),
+      });
+      if (error) throw error;
+
+      const spentUsd = Number(spent) || 0;
+      if (spentUsd >= limit || spentUsd + pendingCostUsd > limit) {
+        throw new BudgetExceededError({
+          scope: scope.scope,
+          name: scope.name,
+          period,
+          limitUsd: Number(limit),
+          spentUsd,
+          pendingCostUsd: pendingCostUsd || undefined,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,103 @@
+// Spend accounting shared by the edge functions and the usage dashboard. Costs are estimates
+// from list prices: tokens for model calls, the processor's per-run price for Parallel runs.
+import { findModel } from './model-config.ts';
+
+export type UsageKind = 'llm' | 'research';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+// Shape of a usage_ledger row
+export interface UsageEntry {
+  kind: UsageKind;
+  provider: string;
+  model?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  processor?: string | null;
+  run_id?: string | null;
+  cost_usd: number;
+  created_at: string;
+}
+
+export interface BudgetLimits {
+  daily_limit_usd: number | null;
+  monthly_limit_usd: number | null;
+}
+
+export interface BudgetStatus {
+  scope: 'user' | 'team';
+  // "Your" for the user's own budget, the team name otherwise
+  name: string;
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  // Estimated cost of the work that was refused, when it's known up front
+  pendingCostUsd?: number;
+}
+
+// Models without a known price (local OpenAI-compatible servers) count as free
+export function llmCostUsd(model: string, promptTokens = 0, completionTokens = 0): number {
+  const option = findModel(model);
+  if (!option) return 0;
+  return (promptTokens * option.inputPricePerMillionUsd + completionTokens * option.outputPricePerMillionUsd) / 1_000_000;
+}
+
+// Budgets reset at midnight UTC and on the first of the month
+export function periodStart(period: BudgetPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function limitFor(limits: BudgetLimits, period: BudgetPeriod): number | null {
+  return period === 'daily' ? limits.daily_limit_usd : limits.monthly_limit_usd;
+}
+
+// Per period, the lower of two limits; null (no limit) only when neither sets one
+export function stricterLimits(a: BudgetLimits, b: BudgetLimits): BudgetLimits {
+  const lower = (x: number | null, y: number | null) =>
+    x === null || x === undefined ? y : y === null || y === undefined ? x : Math.min(Number(x), Number(y));
+  return {
+    daily_limit_usd: lower(a.daily_limit_usd, b.daily_limit_usd),
+    monthly_limit_usd: lower(a.monthly_limit_usd, b.monthly_limit_usd),
+  };
+}
+
+export function formatUsd(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+export function describeExceededBudget(status: BudgetStatus): string {
+  const owner = status.scope === 'user' ? 'Your' : `The ${status.name} team's`;
+  const resets = status.period === 'daily' ? 'at midnight UTC' : 'on the 1st of next month (UTC)';
+  const spent = `${formatUsd(status.spentUsd)} spent`;
+  const problem = status.spentUsd < status.limitUsd && status.pendingCostUsd
+    ? `doesn't cover this (${spent}, this costs about ${formatUsd(status.pendingCostUsd)})`
+    : `is used up (${spent})`;
+  return `${owner} ${status.period} budget of ${formatUsd(status.limitUsd)} ${problem}. It resets ${resets}.`;
+}
+
+export interface UsageDay {
+  date: string;
+  llm: number;
+  research: number;
+}
+
+// Daily cost totals for the last `days` days (UTC), oldest first, including empty days
+export function groupUsageByDay(entries: UsageEntry[], days: number, now = new Date()): UsageDay[] {
+  const today = periodStart('daily', now).getTime();
+  const buckets = new Map<string, UsageDay>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(today - i * 86_400_000).toISOString().slice(0, 10);
+    buckets.set(date, { date, llm: 0, research: 0 });
+  }
+
+  for (const entry of entries) {
+    const bucket = buckets.get(entry.created_at.slice(0, 10));
+    if (bucket) bucket[entry.kind] += Number(entry.cost_usd) || 0;
+  }
+
+  return [...buckets.values()];
+}
@@ -0,0 +1,185 @@
+// Run with: deno test supabase/functions/_shared/webhook-signature.test.ts
+// The signatures below were computed independently (HMAC-SHA256 over `${id}.${timestamp}.${body}`)
+// so the tests check the verifier against the scheme, not against itself.
+import { assertEquals } from 'https://deno.land/std@0.190.0/testing/asserts.ts';
+import {
+  loadVerifierConfig,
+  parseSignatureHeader,
+  verifyWebhookSignature,
+  type WebhookVerifierConfig,
+} from './webhook-signature.ts';
+
+const CURRENT_SECRET = 'whsec_current_test_secret';
+const PREVIOUS_SECRET = 'whsec_previous_test_secret';
+
+const FIXTURE = {
+  id: 'msg_2Kt6bY0hPZ5oXb0vG1qC',
+  timestamp: '1760870400',
+  body: '{"type":"task_run.status","timestamp":"2025-10-19T10:40:00.000Z","data":{"run_id":"trun_9f2c4e1b7a6d4c38","status":"completed","is_active":false,"processor":"core","created_at":"2025-10-19T10:32:11.000Z","modified_at":"2025-10-19T10:40:00.000Z"}}',
+  signatures: {
+    [CURRENT_SECRET]: 'xLeq3hYf+KB221OAdKgq3yy45wHUbtg4iu+T+vjH+58=',
+    [PREVIOUS_SECRET]: 'uHD6ubPXfGHroXPE0CLFKz6x6pWQ9sDUojNeJ/lHOfI=',
+  },
+};
+
+// The moment the fixture was sent, in milliseconds
+const SENT_AT = Number(FIXTURE.timestamp) * 1000;
+
+function config(overrides: Partial<WebhookVerifierConfig> = {}): WebhookVerifierConfig {
+  return { secrets: [CURRENT_SECRET], toleranceSeconds: 300, strict: false, ...overrides };
+}
+
+function headers(signature: string, timestamp = FIXTURE.timestamp) {
+  return { id: FIXTURE.id, timestamp, signature };
+}
+
+Deno.test('accepts a v1 signature made with the configured secret', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    headers(`v1,${FIXTURE.signatures[CURRENT_SECRET]}`),
+    config(),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'verified' });
+});
+
+Deno.test('accepts a header listing several signatures when one matches', async () => {
+  const header = [
+    'v1,bm90LXRoZS1yaWdodC1zaWduYXR1cmU=',
+    `v2,${FIXTURE.signatures[CURRENT_SECRET]}`,
+    `v1,${FIXTURE.signatures[CURRENT_SECRET]}`,
+  ].join(' ');
+
+  assertEquals(parseSignatureHeader(header), [
+    'bm90LXRoZS1yaWdodC1zaWduYXR1cmU=',
+    FIXTURE.signatures[CURRENT_SECRET],
+  ]);
+  assertEquals(
+    await verifyWebhookSignature(FIXTURE.body, headers(header), config(), SENT_AT),
+    { status: 'verified' }
+  );
+});
+
+Deno.test('ignores signatures for other versions', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    headers(`v2,${FIXTURE.signatures[CURRENT_SECRET]}`),
+    config(),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'no_matching_signature' });
+});
+
+Deno.test('accepts either secret while one is being rotated', async () => {
+  const rotating = config({ secrets: [CURRENT_SECRET, PREVIOUS_SECRET] });
+
+  for (const secret of [CURRENT_SECRET, PREVIOUS_SECRET] as const) {
+    const result = await verifyWebhookSignature(
+      FIXTURE.body,
+      headers(`v1,${FIXTURE.signatures[secret]}`),
+      rotating,
+      SENT_AT
+    );
+    assertEquals(result, { status: 'verified' });
+  }
+});
+
+Deno.test('rejects a signature from a secret that has been rotated out', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    headers(`v1,${FIXTURE.signatures[PREVIOUS_SECRET]}`),
+    config(),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'no_matching_signature' });
+});
+
+Deno.test('reads rotated secrets from a comma-separated variable', () => {
+  const env = new Map([['PARALLEL_WEBHOOK_SECRET', ` ${CURRENT_SECRET}, ${PREVIOUS_SECRET} `]]);
+  assertEquals(loadVerifierConfig(env).secrets, [CURRENT_SECRET, PREVIOUS_SECRET]);
+});
+
+Deno.test('rejects the wrong secret', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    headers(`v1,${FIXTURE.signatures[CURRENT_SECRET]}`),
+    config({ secrets: ['whsec_wrong_test_secret'] }),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'no_matching_signature' });
+});
+
+Deno.test('rejects a payload that was changed after signing', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body.replace('"completed"', '"failed"'),
+    headers(`v1,${FIXTURE.signatures[CURRENT_SECRET]}`),
+    config(),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'no_matching_signature' });
+});
+
+Deno.test('accepts timestamps at the edge of the tolerance window', async () => {
+  const signature = `v1,${FIXTURE.signatures[CURRENT_SECRET]}`;
+
+  for (const now of [SENT_AT - 300_000, SENT_AT + 300_000]) {
+    const result = await verifyWebhookSignature(FIXTURE.body, headers(signature), config(), now);
+    assertEquals(result, { status: 'verified' });
+  }
+});
+
+Deno.test('rejects stale and future timestamps outside the tolerance window', async () => {
+  const signature = `v1,${FIXTURE.signatures[CURRENT_SECRET]}`;
+
+  // Received six minutes after it was sent, or "sent" six minutes from now
+  for (const now of [SENT_AT + 360_000, SENT_AT - 360_000]) {
+    const result = await verifyWebhookSignature(FIXTURE.body, headers(signature), config(), now);
+    assertEquals(result, { status: 'rejected', reason: 'timestamp_out_of_tolerance' });
+  }
+});
+
+Deno.test('rejects a timestamp that is not whole seconds', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    headers(`v1,${FIXTURE.signatures[CURRENT_SECRET]}`, '2025-10-19T10:40:00Z'),
+    config(),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'invalid_timestamp' });
+});
+
+Deno.test('strict mode rejects an unsigned request', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    { id: FIXTURE.id, timestamp: FIXTURE.timestamp, signature: '' },
+    config({ strict: true }),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'missing_headers' });
+});
+
+Deno.test('strict mode rejects every request when no secret is configured', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    { id: '', timestamp: '', signature: '' },
+    config({ secrets: [], strict: true }),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'rejected', reason: 'no_secret_configured' });
+});
+
+Deno.test('skips verification outside strict mode when no secret is configured', async () => {
+  const result = await verifyWebhookSignature(
+    FIXTURE.body,
+    { id: '', timestamp: '', signature: '' },
+    config({ secrets: [] }),
+    SENT_AT
+  );
+  assertEquals(result, { status: 'skipped' });
+});
+
+Deno.test('strict mode defaults on in production', () => {
+  assertEquals(loadVerifierConfig(new Map([['ENVIRONMENT', 'production']])).strict, true);
+  assertEquals(loadVerifierConfig(new Map([['ENVIRONMENT', 'production'], ['PARALLEL_WEBHOOK_STRICT', 'false']])).strict, false);
+  assertEquals(loadVerifierConfig(new Map()).strict, false);
+});
@@ -0,0 +1,139 @@
+// Verifies Parallel webhook signatures (Standard Webhooks scheme):
+//   webhook-signature = "v1,<base64 HMAC-SHA256 of `${id}.${timestamp}.${body}`>" (space-separated list)
+// Kept free of Deno APIs so it can be exercised directly against fixture payloads.
+
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = 'v1';
+
+export interface WebhookSignatureHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+export interface WebhookVerifierConfig {
+  // Every secret that is currently accepted; more than one while a secret is being rotated
+  secrets: string[];
+  toleranceSeconds: number;
+  // Refuse webhooks outright when no secret is configured or the request is unsigned
+  strict: boolean;
+}
+
+export type SignatureFailureReason =
+  | 'no_secret_configured'
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'timestamp_out_of_tolerance'
+  | 'no_matching_signature';
+
+export type SignatureVerification =
+  | { status: 'verified' }
+  | { status: 'skipped' }
+  | { status: 'rejected'; reason: SignatureFailureReason };
+
+interface EnvReader {
+  get(key: string): string | undefined;
+}
+
+// Reads PARALLEL_WEBHOOK_SECRET (comma-separated for rotation), PARALLEL_WEBHOOK_TOLERANCE_SECONDS
+// and PARALLEL_WEBHOOK_STRICT, which defaults to on when ENVIRONMENT is "production".
+export function loadVerifierConfig(env: EnvReader): WebhookVerifierConfig {
+  const secrets = (env.get('PARALLEL_WEBHOOK_SECRET') || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+  const tolerance = Number(env.get('PARALLEL_WEBHOOK_TOLERANCE_SECONDS'));
+  const strictSetting = env.get('PARALLEL_WEBHOOK_STRICT');
+
+  return {
+    secrets,
+    toleranceSeconds: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS,
+    strict: strictSetting ? strictSetting === 'true' : env.get('ENVIRONMENT') === 'production',
+  };
+}
+
+// Returns the signatures for the supported version. Unversioned entries are accepted for
+// compatibility with senders that omit the prefix; other versions are ignored.
+export function parseSignatureHeader(header: string): string[] {
+  return header
+    .split(' ')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const comma = entry.indexOf(',');
+      if (comma === -1) return [entry];
+      return entry.slice(0, comma) === SIGNATURE_VERSION ? [entry.slice(comma + 1)] : [];
+    });
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  // Compare every byte of the longer input so timing doesn't reveal the matching prefix
+  let difference = left.length ^ right.length;
+  const length = Math.max(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+export async function computeSignature(
+  secret: string,
+  webhookId: string,
+  timestamp: string,
+  payload: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signedPayload = `${webhookId}.${timestamp}.${payload}`;
+  const signatureBytes = await crypto.subtle.sign('HMAC', key, encoder.encode(signedPayload));
+  return btoa(String.fromCharCode(...new Uint8Array(signatureBytes)));
+}
+
+export async function verifyWebhookSignature(
+  payload: string,
+  headers: WebhookSignatureHeaders,
+  config: WebhookVerifierConfig,
+  now: number = Date.now()
+): Promise<SignatureVerification> {
+  if (config.secrets.length === 0) {
+    return config.strict
+      ? { status: 'rejected', reason: 'no_secret_configured' }
+      : { status: 'skipped' };
+  }
+
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return { status: 'rejected', reason: 'missing_headers' };
+  }
+
+  // Timestamps are seconds since the epoch; a stale one means the request may be a replay
+  const timestampSeconds = Number(headers.timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    return { status: 'rejected', reason: 'invalid_timestamp' };
+  }
+  if (Math.abs(now / 1000 - timestampSeconds) > config.toleranceSeconds) {
+    return { status: 'rejected', reason: 'timestamp_out_of_tolerance' };
+  }
+
+  const candidates = parseSignatureHeader(headers.signature);
+  for (const secret of config.secrets) {
+    const expected = await computeSignature(secret, headers.id, headers.timestamp, payload);
+    if (candidates.some(candidate => timingSafeEqual(candidate, expected))) {
+      return { status: 'verified' };
+    }
+  }
+
+  return { status: 'rejected', reason: 'no_matching_signature' };
+}
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import type { LLMMessage } from '../_shared/llm.ts';
+import { createLLMProvider } from '../_shared/llm-provider.ts';
+import { MODEL_DEFAULTS } from '../_shared/model-config.ts';
+import {
+  INTENT_RESPONSE_SCHEMA,
+  applyConfidenceThreshold,
+  buildIntentPrompt,
+  intentResultSchema,
+} from '../_shared/intent.ts';
+import { loadBranchHistory } from '../_shared/session-history.ts';
+import { generateStructured } from '../_shared/structured-output.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { BudgetExceededError, assertWithinBudget, budgetErrorResponse, meteredProvider } from '../_shared/usage-ledger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface IntentRequest {
+  sessionId: string;
+  message: string;
+}
+
+// Enough recent conversation to resolve follow-ups like "now dig into the second one"
+const CONTEXT_TURNS = 6;
+const MAX_TURN_LENGTH = 1000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await requireUser(req, supabase);
+    const { sessionId, message }: IntentRequest = await req.json();
+
+    if (!message?.trim()) {
+      throw new Error('message is required');
+    }
+    await assertSessionOwner(supabase, sessionId, user.id);
+    await assertWithinBudget(supabase, user.id);
+
+    // The client saves the message before classifying it; it is sent separately below
+    const history = (await loadBranchHistory(supabase, sessionId))
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant');
+    if (history[history.length - 1]?.content === message) history.pop();
+
+    const context: LLMMessage[] = history.slice(-CONTEXT_TURNS).map(msg => ({
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: msg.content.slice(0, MAX_TURN_LENGTH),
+    }));
+
+    const llm = meteredProvider(supabase, createLLMProvider(Deno.env, MODEL_DEFAULTS.intent), {
+      user_id: user.id,
+      session_id: sessionId,
+    });
+    const result = applyConfidenceThreshold(await generateStructured(
+      llm,
+      [...context, { role: 'user', content: buildIntentPrompt(message) }],
+      intentResultSchema,
+      { responseSchema: INTENT_RESPONSE_SCHEMA }
+    ));
+
+    console.log('🧭 Classified message intent:', { sessionId, ...result });
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof BudgetExceededError) {
+      return budgetErrorResponse(error, corsHeaders);
+    }
+
+    console.error('Error in chat-intent function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      type: error.name || 'UnknownError',
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
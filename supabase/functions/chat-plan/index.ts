@@ -1,28 +1,32 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { OUTPUT_SCHEMA_LIBRARY } from '../_shared/output-schema.ts';
+import { describeProcessors, suggestProcessor } from '../_shared/processors.ts';
+import {
+  MAX_CLARIFYING_QUESTIONS,
+  RESEARCH_BRIEF_RESPONSE_SCHEMA,
+  clarificationAnswersSchema,
+  formatClarificationAnswers,
+  researchBriefSchema,
+  type ClarificationAnswer,
+  type ResearchBrief,
+} from '../_shared/research-brief.ts';
+import { StructuredOutputError, formatZodIssues, generateStructured } from '../_shared/structured-output.ts';
+import { createLLMProvider } from '../_shared/llm-provider.ts';
+import { MODEL_DEFAULTS } from '../_shared/model-config.ts';
+import { buildChatContext, loadModelSettings } from '../_shared/session-history.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { BudgetExceededError, assertWithinBudget, budgetErrorResponse, meteredProvider } from '../_shared/usage-ledger.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface GeminiMessage {
-  role: 'user' | 'model';
-  parts: Array<{ text: string }>;
-}
-
-interface ResearchBrief {
-  objective: string;
-  constraints: string[];
-  target_sources: string[];
-  disallowed_sources: string[];
-  timebox_minutes: number;
-  expected_output_fields: string[];
-  summary: string;
-}
-
 interface PlanRequest {
   sessionId: string;
+  // Answers to the missing_information questions of every earlier draft, oldest round first
+  answers?: ClarificationAnswer[];
 }
 
 serve(async (req) => {
@@ -33,40 +37,47 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY')!;
-
-    if (!geminiApiKey) {
-      throw new Error('GEMINI_API_KEY not configured');
-    }
-
     const supabase = createClient(supabaseUrl, supabaseKey);
-    const { sessionId }: PlanRequest = await req.json();
-
-    // Fetch conversation history
-    const { data: messages, error: messagesError } = await supabase
-      .from('messages')
-      .select('role, content')
-      .eq('session_id', sessionId)
-      .order('created_at', { ascending: true });
-
-    if (messagesError) {
-      console.error('Error fetching messages:', messagesError);
-      throw messagesError;
+    const user = await requireUser(req, supabase);
+    const { sessionId, answers: rawAnswers }: PlanRequest = await req.json();
+    await assertSessionOwner(supabase, sessionId, user.id);
+    await assertWithinBudget(supabase, user.id);
+    const owner = { user_id: user.id, session_id: sessionId };
+
+    const parsedAnswers = clarificationAnswersSchema.safeParse(rawAnswers ?? []);
+    if (!parsedAnswers.success) {
+      return new Response(JSON.stringify({
+        error: `Invalid answers:\n${formatZodIssues(parsedAnswers.error)}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
+    const answers: ClarificationAnswer[] = parsedAnswers.data;
+
+    // Fetch conversation history along the active branch, summarizing what doesn't fit
+    const { messages: llmMessages } = await buildChatContext(
+      supabase,
+      meteredProvider(supabase, createLLMProvider(Deno.env, MODEL_DEFAULTS.summary), owner),
+      sessionId
+    );
+
+    const answered = answers.filter(({ answer }) => answer?.trim());
+    const clarificationPrompt = answered.length > 0
+      ? `The user has answered your follow-up questions:
+${formatClarificationAnswers(answered)}
 
-    // Format messages for Gemini
-    const geminiMessages: GeminiMessage[] = (messages || [])
-      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-      .map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.content }]
-      }));
+Fold these answers into the objective and constraints. Leave missing_information empty unless something essential is still unknown.`
+      : `If the request is underspecified in a way that would change the research (no geography, timeframe, entity list or scope where one matters), add up to ${MAX_CLARIFYING_QUESTIONS} targeted questions to missing_information, each with 2-4 short suggested answers. Still draft the best brief you can. Leave missing_information empty when the request is specific enough.`;
+
+    const templateList = Object.entries(OUTPUT_SCHEMA_LIBRARY)
+      .map(([name, schema]) => `- ${name}: ${schema.description}`)
+      .join('\n');
 
     // Add system prompt for research brief generation
-    geminiMessages.push({
+    llmMessages.push({
       role: 'user',
-      parts: [{
-        text: `Based on our conversation history, create a comprehensive research brief. Return your response as a JSON object with the following structure:
+      content: `Based on our conversation history, create a comprehensive research brief as a JSON object like this:
 
 {
   "objective": "Clear research objective based on the conversation",
@@ -75,71 +86,64 @@ serve(async (req) => {
   "disallowed_sources": ["social_media", "forums"],
   "timebox_minutes": 5,
   "expected_output_fields": ["summary", "key_facts", "sources", "recommendations"],
-  "summary": "Brief summary of what research is needed"
+  "output_field_specs": [
+    { "field": "key_facts", "type": "string_list", "description": "Most important findings" }
+  ],
+  "output_template": "general",
+  "processor": "core",
+  "summary": "Brief summary of what research is needed",
+  "missing_information": [
+    { "question": "Which region should the research cover?", "options": ["Global", "United States", "European Union"] }
+  ]
 }
 
-Focus on the user's most recent questions and interests. Make the objective specific and actionable.`
-      }]
-    });
+Choose expected_output_fields that answer the user's actual question. For any field you may add an entry to output_field_specs with its type: string, number, boolean, string_list, object_list or object (list the column or property names in "properties" for the last two).
 
-    console.log('Generating research brief with Gemini');
-
-    // Call Gemini API
-    const geminiResponse = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent', {
-      method: 'POST',
-      headers: {
-        'x-goog-api-key': geminiApiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: geminiMessages,
-        generationConfig: {
-          temperature: 0.3,
-          topK: 1,
-          topP: 1,
-          maxOutputTokens: 1024,
-        },
-      }),
-    });
+Set output_template to the closest of these reusable templates, or omit it if none fits:
+${templateList}
 
-    console.log('Gemini API response status:', geminiResponse.status);
+Set processor to the cheapest Parallel tier that can do this research well, given how many sources it needs, how hard the question is and the timebox:
+${describeProcessors()}
 
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      console.error('Gemini API error:', errorText);
-      throw new Error(`Gemini API error: ${geminiResponse.status} - ${errorText}`);
-    }
+Focus on the user's most recent questions and interests. If earlier research results appear in the conversation, build on them: target what they left open or what the user asked to go deeper on, and don't repeat what they already answered. Make the objective specific and actionable.
+
+${clarificationPrompt}`
+    });
 
-    const geminiData = await geminiResponse.json();
-    const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
+    const llm = meteredProvider(
+      supabase,
+      createLLMProvider(Deno.env, await loadModelSettings(supabase, sessionId, 'plan')),
+      owner
+    );
 
-    if (!content) {
-      throw new Error('No response generated');
-    }
+    console.log('Generating research brief with', llm.model, answered.length ? `(${answered.length} clarifications)` : '');
 
-    // Parse JSON response
     let brief: ResearchBrief;
     try {
-      brief = JSON.parse(content);
-    } catch (parseError) {
-      console.error('Error parsing JSON response:', parseError);
-      console.error('Raw content:', content);
-      throw new Error('Failed to parse research brief JSON');
-    }
-
-    // Validate required fields
-    const requiredFields = ['objective', 'constraints', 'target_sources', 'disallowed_sources', 'timebox_minutes', 'expected_output_fields', 'summary'];
-    for (const field of requiredFields) {
-      if (!(field in brief)) {
-        throw new Error(`Missing required field: ${field}`);
+      brief = await generateStructured(llm, llmMessages, researchBriefSchema, {
+        responseSchema: RESEARCH_BRIEF_RESPONSE_SCHEMA,
+      });
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        throw new Error(`Failed to draft a valid research brief:\n${error.issues}`);
       }
+      throw error;
     }
 
+    brief.processor ??= suggestProcessor(brief);
+
     return new Response(JSON.stringify(brief), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof BudgetExceededError) {
+      return budgetErrorResponse(error, corsHeaders);
+    }
+
     console.error('Error in chat-plan function:', error);
     return new Response(JSON.stringify({ 
       error: error.message 
@@ -1,19 +1,268 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import type { LLMMessage, LLMProvider } from '../_shared/llm.ts';
+import { createLLMProvider } from '../_shared/llm-provider.ts';
+import { MODEL_DEFAULTS } from '../_shared/model-config.ts';
+import { buildChatContext, loadModelSettings } from '../_shared/session-history.ts';
+import { CLARIFY_INSTRUCTION } from '../_shared/intent.ts';
+import { BudgetExceededError, assertWithinBudget, budgetErrorResponse, meteredProvider } from '../_shared/usage-ledger.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface GeminiMessage {
-  role: 'user' | 'model';
-  parts: Array<{ text: string }>;
-}
-
 interface ChatRequest {
   sessionId: string;
-  message: string;
+  message?: string;
+  // Reply as server-sent events instead of a single JSON body
+  stream?: boolean;
+  // Re-run this assistant message against the history before it, keeping the old text as a variant
+  regenerateMessageId?: string;
+  // chat-intent couldn't tell chat from research: ask the user instead of answering
+  clarify?: boolean;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface ReplyMetadata {
+  model: string;
+  tokens?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  latency_ms: number;
+  first_token_ms?: number;
+  finish_reason?: string;
+  aborted?: boolean;
+}
+
+interface ReplyVariant extends Partial<ReplyMetadata> {
+  content: string;
+  created_at: string;
+}
+
+interface StoredMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// The reply is saved here rather than by the browser, so it survives a closed tab and
+// reaches every open client through the messages realtime subscription
+async function persistReply(
+  supabase: SupabaseClient,
+  sessionId: string,
+  parentMessageId: string | null,
+  content: string,
+  metadata: ReplyMetadata
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      session_id: sessionId,
+      // Attach to the branch the reply was generated from, even if the user has switched since
+      parent_message_id: parentMessageId,
+      role: 'assistant',
+      content,
+      metadata
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('❌ Error saving assistant message:', error);
+    throw error;
+  }
+
+  console.log('💾 Saved assistant message:', { id: data.id, ...metadata });
+  return data.id;
+}
+
+// Regenerating keeps every earlier reply in metadata.variants; the message shows the newest
+async function saveVariant(
+  supabase: SupabaseClient,
+  target: StoredMessage,
+  content: string,
+  metadata: ReplyMetadata
+): Promise<string> {
+  const { variants, active_variant: _activeVariant, ...originalMetadata } = target.metadata || {};
+  const previous = Array.isArray(variants)
+    ? variants as ReplyVariant[]
+    : [{ ...originalMetadata, content: target.content, created_at: target.created_at }];
+
+  const nextVariants: ReplyVariant[] = [
+    ...previous,
+    { ...metadata, content, created_at: new Date().toISOString() }
+  ];
+
+  const { error } = await supabase
+    .from('messages')
+    .update({
+      content,
+      metadata: { ...metadata, variants: nextVariants, active_variant: nextVariants.length - 1 }
+    })
+    .eq('id', target.id);
+
+  if (error) {
+    console.error('❌ Error saving regenerated reply:', error);
+    throw error;
+  }
+
+  console.log('💾 Saved reply variant:', { id: target.id, variant: nextVariants.length - 1, ...metadata });
+  return target.id;
+}
+
+// How long the first event waits for the stop channel to join
+const STOP_CHANNEL_JOIN_TIMEOUT_MS = 5000;
+
+// Supabase's edge runtime keeps the worker alive until promises handed to waitUntil settle
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Events: {type:'start', stream_id} (without stream_id if the reply can't be stopped), then
+// {type:'delta', text} per fragment, then {type:'done', content, tokens, model, message_id}
+// or {type:'error', error}.
+// A client that disconnects doesn't stop the reply: it is generated and saved in full and
+// reaches the session through realtime. Only a 'stop' broadcast on the stream's channel
+// (sent by the Stop button) aborts the model call, saving whatever was generated as aborted.
+function streamReply(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  messages: LLMMessage[],
+  save: (content: string, metadata: ReplyMetadata) => Promise<string>
+): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  const startedAt = Date.now();
+  const streamId = crypto.randomUUID();
+  let clientGone = false;
+
+  // Must match stopChatStream in src/lib/chat-stream.ts
+  const stopChannel = supabase
+    .channel(`chat-stop:${streamId}`)
+    .on('broadcast', { event: 'stop' }, () => {
+      console.log('⏹️ Stop requested, aborting model request');
+      upstream.abort();
+    });
+
+  // A broadcast sent before the channel has joined is lost, so the client only gets the
+  // stream id once it has. False if the channel couldn't join in time.
+  const stopListening = new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => resolve(false), STOP_CHANNEL_JOIN_TIMEOUT_MS);
+    stopChannel.subscribe(status => {
+      if (status === 'SUBSCRIBED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        clearTimeout(timer);
+        resolve(status === 'SUBSCRIBED');
+      }
+    });
+  });
+
+  const generate = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    let partial = '';
+    let firstTokenMs: number | undefined;
+
+    const send = (event: Record<string, unknown>) => {
+      if (clientGone) return;
+      try {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      } catch {
+        clientGone = true;
+      }
+    };
+
+    if (await stopListening) {
+      send({ type: 'start', stream_id: streamId });
+    } else {
+      console.warn('⚠️ Stop channel did not join, this reply can only run to the end');
+      send({ type: 'start' });
+    }
+
+    try {
+      const result = await llm.stream(
+        messages,
+        text => {
+          firstTokenMs ??= Date.now() - startedAt;
+          partial += text;
+          send({ type: 'delta', text });
+        },
+        { signal: upstream.signal }
+      );
+
+      console.log('✅ Model stream finished:', {
+        length: result.text.length,
+        finishReason: result.finishReason,
+        tokens: result.usage?.totalTokens,
+        clientConnected: !clientGone
+      });
+
+      if (!result.text) {
+        throw new Error('No response generated');
+      }
+
+      const tokens = result.usage?.totalTokens || 0;
+      const messageId = await save(result.text, {
+        model: llm.model,
+        tokens,
+        prompt_tokens: result.usage?.promptTokens,
+        completion_tokens: result.usage?.completionTokens,
+        latency_ms: Date.now() - startedAt,
+        first_token_ms: firstTokenMs,
+        finish_reason: result.finishReason
+      });
+
+      send({
+        type: 'done',
+        content: result.text,
+        tokens,
+        model: llm.model,
+        message_id: messageId
+      });
+    } catch (error) {
+      if (upstream.signal.aborted) {
+        if (partial) {
+          await save(partial, {
+            model: llm.model,
+            latency_ms: Date.now() - startedAt,
+            first_token_ms: firstTokenMs,
+            aborted: true
+          }).catch(() => undefined);
+        }
+        return;
+      }
+      console.error('❌ Error streaming reply:', error);
+      send({ type: 'error', error: error.message });
+    } finally {
+      await supabase.removeChannel(stopChannel);
+      if (!clientGone) {
+        controller.close();
+      }
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const done = generate(controller);
+      if (typeof EdgeRuntime !== 'undefined') {
+        EdgeRuntime.waitUntil(done);
+      }
+    },
+    cancel() {
+      console.log('🔌 Client closed the stream, finishing the reply in the background');
+      clientGone = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 serve(async (req) => {
@@ -21,112 +270,112 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const startedAt = Date.now();
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await requireUser(req, supabase);
+    const { sessionId, message, stream, regenerateMessageId, clarify }: ChatRequest = await req.json();
+    await assertSessionOwner(supabase, sessionId, user.id);
+    await assertWithinBudget(supabase, user.id);
+    const owner = { user_id: user.id, session_id: sessionId };
 
-    if (!geminiApiKey) {
-      throw new Error('GEMINI_API_KEY not configured');
-    }
+    let target: StoredMessage | null = null;
+    if (regenerateMessageId) {
+      const { data: targetData, error: targetError } = await supabase
+        .from('messages')
+        .select('id, parent_message_id, role, content, metadata, created_at')
+        .eq('id', regenerateMessageId)
+        .eq('session_id', sessionId)
+        .single();
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    const { sessionId, message }: ChatRequest = await req.json();
-
-    // Fetch conversation history
-    const { data: messages, error: messagesError } = await supabase
-      .from('messages')
-      .select('role, content')
-      .eq('session_id', sessionId)
-      .order('created_at', { ascending: true });
-
-    if (messagesError) {
-      console.error('Error fetching messages:', messagesError);
-      throw messagesError;
+      if (targetError || !targetData || targetData.role !== 'assistant') {
+        throw new Error('Only assistant replies in this session can be regenerated');
+      }
+      target = targetData as StoredMessage;
+      console.log('🔁 Regenerating reply:', target.id);
     }
 
-    // Format messages for Gemini
-    const geminiMessages: GeminiMessage[] = (messages || [])
-      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-      .map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.content }]
-      }));
-
-    // Add the new user message
-    geminiMessages.push({
-      role: 'user',
-      parts: [{ text: message }]
-    });
-
-    console.log('🚀 Sending request to Gemini API with', geminiMessages.length, 'messages');
+    // Fetch the active branch, or the branch leading up to the reply being regenerated, with
+    // older turns folded into a summary once the history outgrows the context budget
+    const { history: messages, messages: llmMessages } = await buildChatContext(
+      supabase,
+      meteredProvider(supabase, createLLMProvider(Deno.env, MODEL_DEFAULTS.summary), owner),
+      sessionId,
+      target ? target.parent_message_id : undefined
+    );
 
-    let geminiResponse;
-    try {
-      // Call Gemini API
-      geminiResponse = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent', {
-        method: 'POST',
-        headers: {
-          'x-goog-api-key': geminiApiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: geminiMessages,
-          generationConfig: {
-            temperature: 0.9,
-            topK: 1,
-            topP: 1,
-            maxOutputTokens: 2048,
-          },
-        }),
-      });
+    // The client saves the user message before calling, so only add it if it isn't there yet
+    const lastMessage = llmMessages[llmMessages.length - 1];
+    if (message && !(lastMessage?.role === 'user' && lastMessage.content === message)) {
+      llmMessages.push({ role: 'user', content: message });
+    }
 
-      console.log('📡 Gemini API response received:', {
-        status: geminiResponse.status,
-        statusText: geminiResponse.statusText,
-        ok: geminiResponse.ok
-      });
-      
-    } catch (fetchError) {
-      console.error('❌ Network error calling Gemini API:', fetchError);
-      throw new Error(`Network error calling Gemini API: ${fetchError.message}`);
+    if (llmMessages[llmMessages.length - 1]?.role !== 'user') {
+      throw new Error('Nothing to reply to');
     }
 
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      console.error('❌ Gemini API error response:', {
-        status: geminiResponse.status,
-        statusText: geminiResponse.statusText,
-        body: errorText
-      });
-      throw new Error(`Gemini API error: ${geminiResponse.status} - ${errorText}`);
+    if (clarify) {
+      const lastTurn = llmMessages[llmMessages.length - 1];
+      llmMessages[llmMessages.length - 1] = { ...lastTurn, content: `${lastTurn.content}\n\n${CLARIFY_INSTRUCTION}` };
     }
 
-    let geminiData;
-    try {
-      geminiData = await geminiResponse.json();
-      console.log('✅ Gemini API response parsed successfully');
-    } catch (jsonError) {
-      console.error('❌ Error parsing Gemini API response as JSON:', jsonError);
-      throw new Error(`Error parsing Gemini API response: ${jsonError.message}`);
+    const llm = meteredProvider(
+      supabase,
+      createLLMProvider(Deno.env, await loadModelSettings(supabase, sessionId, 'chat')),
+      owner
+    );
+
+    // Spend is recorded by the metered providers, including replies stopped partway
+    const save = (content: string, metadata: ReplyMetadata) => target
+      ? saveVariant(supabase, target, content, metadata)
+      : persistReply(supabase, sessionId, messages[messages.length - 1]?.id ?? null, content, metadata);
+
+    if (stream) {
+      console.log('🚀 Streaming', llm.model, 'reply for', llmMessages.length, 'messages');
+      return streamReply(supabase, llm, llmMessages, save);
     }
 
-    const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
-    const tokens = geminiData.usageMetadata?.totalTokenCount || 0;
+    console.log('🚀 Sending request to', llm.model, 'with', llmMessages.length, 'messages');
+
+    const reply = await llm.chat(llmMessages);
+    console.log('✅ Model response received');
+
+    const content = reply.text;
+    const tokens = reply.usage?.totalTokens || 0;
 
     if (!content) {
       throw new Error('No response generated');
     }
 
+    const messageId = await save(content, {
+      model: llm.model,
+      tokens,
+      prompt_tokens: reply.usage?.promptTokens,
+      completion_tokens: reply.usage?.completionTokens,
+      latency_ms: Date.now() - startedAt,
+      finish_reason: reply.finishReason
+    });
+
     return new Response(JSON.stringify({ 
       content,
       tokens,
-      model: 'gemini-2.5-flash'
+      model: llm.model,
+      message_id: messageId
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof BudgetExceededError) {
+      return budgetErrorResponse(error, corsHeaders);
+    }
+
     console.error('💥 CRITICAL ERROR in chat-send function:', {
       name: error.name,
       message: error.message,
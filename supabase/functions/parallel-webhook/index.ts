@@ -1,34 +1,69 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { ParallelService } from '../_shared/parallel.ts';
+import { applyTaskRunStatus } from '../_shared/task-completion.ts';
+import { loadVerifierConfig, verifyWebhookSignature } from '../_shared/webhook-signature.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-async function verifyWebhookSignature(
-  payload: string,
-  signature: string,
-  timestamp: string,
-  webhookId: string,
-  secret: string
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Record a verified delivery before acting on it. Returns false when this webhook-id was
+// already handled; failed deliveries are claimed again so Parallel's retry can succeed.
+async function claimDelivery(
+  supabase: SupabaseClient,
+  delivery: Record<string, unknown>
 ): Promise<boolean> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-
-  const signedPayload = `${webhookId}.${timestamp}.${payload}`;
-  const expectedBytes = await crypto.subtle.sign('HMAC', key, encoder.encode(signedPayload));
-  const expectedSignature = btoa(String.fromCharCode(...new Uint8Array(expectedBytes)));
-
-  // Signature header may contain multiple space-separated values
-  const signatures = signature.split(' ');
-  return signatures.some(sig => sig === expectedSignature);
+  const { error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert({ ...delivery, outcome: 'processing' });
+
+  if (!insertError) return true;
+
+  if (insertError.code !== '23505') {
+    console.error('❌ Error recording webhook delivery:', insertError);
+    throw insertError;
+  }
+
+  const { data: retried, error: retryError } = await supabase
+    .from('webhook_deliveries')
+    .update({ ...delivery, outcome: 'processing', error: null, received_at: new Date().toISOString() })
+    .eq('webhook_id', delivery.webhook_id as string)
+    .eq('outcome', 'failed')
+    .select('id');
+
+  if (retryError) {
+    console.error('❌ Error reclaiming webhook delivery:', retryError);
+    throw retryError;
+  }
+
+  return !!retried && retried.length > 0;
+}
+
+async function finishDelivery(
+  supabase: SupabaseClient,
+  webhookId: string,
+  startedAt: number,
+  outcome: string,
+  error?: string
+) {
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      outcome,
+      error: error ?? null,
+      processed_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt
+    })
+    .eq('webhook_id', webhookId);
+
+  if (updateError) {
+    // The ledger is bookkeeping; never fail a delivery because of it
+    console.error('❌ Error updating webhook delivery:', updateError);
+  }
 }
 
 serve(async (req) => {
@@ -36,24 +71,64 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const startedAt = Date.now();
+  let supabase: SupabaseClient | null = null;
+  let webhookId = '';
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
-    const webhookSecret = Deno.env.get('PARALLEL_WEBHOOK_SECRET');
+    const verifierConfig = loadVerifierConfig(Deno.env);
 
     console.log('🔧 Environment check:', {
       supabaseUrl: supabaseUrl ? '✅ Set' : '❌ Missing',
       supabaseKey: supabaseKey ? '✅ Set' : '❌ Missing',
       parallelApiKey: parallelApiKey ? '✅ Set' : '❌ Missing',
-      webhookSecret: webhookSecret ? '✅ Set' : '⚠️ Not set (optional)'
+      webhookSecrets: verifierConfig.secrets.length > 0
+        ? `✅ ${verifierConfig.secrets.length} active`
+        : verifierConfig.strict ? '❌ Missing (strict mode)' : '⚠️ Not set (optional)'
     });
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    supabase = createClient(supabaseUrl, supabaseKey);
 
     const payload = await req.text();
     console.log('📨 Received webhook payload:', payload);
-    
+
+    const signature = req.headers.get('webhook-signature') || '';
+    const timestamp = req.headers.get('webhook-timestamp') || '';
+    const deliveryId = req.headers.get('webhook-id') || '';
+
+    // Verify before touching the ledger so an unsigned caller can't write to it
+    console.log('🔐 Verifying webhook signature...');
+    console.log('🔍 Signature verification data:', {
+      signature: signature ? '✅ Present' : '❌ Missing',
+      timestamp: timestamp ? '✅ Present' : '❌ Missing',
+      webhookId: deliveryId ? '✅ Present' : '❌ Missing',
+      strict: verifierConfig.strict
+    });
+
+    const verification = await verifyWebhookSignature(
+      payload,
+      { id: deliveryId, timestamp, signature },
+      verifierConfig
+    );
+
+    if (verification.status === 'rejected') {
+      // Logged only: the caller is unauthenticated, so nothing it sends is stored
+      console.error('❌ Webhook signature verification failed:', {
+        reason: verification.reason,
+        webhookId: deliveryId || null,
+        durationMs: Date.now() - startedAt
+      });
+      return new Response('Invalid signature', { status: 401 });
+    }
+    if (verification.status === 'verified') {
+      console.log('✅ Webhook signature verified successfully');
+    } else {
+      console.log('⚠️ Webhook signature verification skipped (no secret configured)');
+    }
+
     let webhookData;
     try {
       webhookData = JSON.parse(payload);
@@ -63,32 +138,30 @@ serve(async (req) => {
       throw new Error(`Invalid JSON payload: ${parseError.message}`);
     }
 
-    // Verify webhook signature if secret is configured
-    if (webhookSecret) {
-      console.log('🔐 Verifying webhook signature...');
-      const signature = req.headers.get('webhook-signature') || '';
-      const timestamp = req.headers.get('webhook-timestamp') || '';
-      const webhookId = req.headers.get('webhook-id') || '';
-
-      console.log('🔍 Signature verification data:', {
-        signature: signature ? '✅ Present' : '❌ Missing',
-        timestamp: timestamp ? '✅ Present' : '❌ Missing',
-        webhookId: webhookId ? '✅ Present' : '❌ Missing'
-      });
+    // Parallel wraps the run in `data`; older payloads put it at the top level
+    const eventData = webhookData.data ?? webhookData;
+    const { status, run_id } = eventData;
+    // Deliveries without an id are deduplicated per run and status instead
+    webhookId = deliveryId || `${run_id}:${status}`;
+
+    const isNewDelivery = await claimDelivery(supabase, {
+      webhook_id: webhookId,
+      run_id: run_id ?? null,
+      event_type: webhookData.type ?? null,
+      status: status ?? null,
+      payload: webhookData,
+      signature_valid: verification.status === 'skipped' ? null : true
+    });
 
-      const isValid = await verifyWebhookSignature(payload, signature, timestamp, webhookId, webhookSecret);
-      if (!isValid) {
-        console.error('❌ Invalid webhook signature verification failed');
-        return new Response('Invalid signature', { status: 401 });
-      }
-      console.log('✅ Webhook signature verified successfully');
-    } else {
-      console.log('⚠️ Webhook signature verification skipped (no secret configured)');
+    if (!isNewDelivery) {
+      console.log(`⏭️ Duplicate delivery ${webhookId}, acknowledging without processing`);
+      return new Response(JSON.stringify({ success: true, duplicate: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    const { status, run_id } = webhookData;
-    
     console.log('📊 Processing webhook:', {
+      webhookId,
       status,
       run_id,
       timestamp: new Date().toISOString()
@@ -99,140 +172,28 @@ serve(async (req) => {
       throw new Error('Missing run_id in webhook payload');
     }
 
-    // Update task status in database
-    console.log('💾 Updating task status in database...');
-    const { error: updateError } = await supabase
-      .from('task_runs')
-      .update({ 
-        status: status,
-        completed_at: status === 'completed' ? new Date().toISOString() : null
-      })
-      .eq('parallel_run_id', run_id);
-
-    if (updateError) {
-      console.error('❌ Database update error:', updateError);
-      throw updateError;
-    }
-
-    console.log(`✅ Updated task ${run_id} to status: ${status}`);
-
-    // If completed, fetch results and add to messages
-    if (status === 'completed') {
-      console.log('Task completed, fetching results from Parallel API');
+    // Shared with research-reconcile; repeated or late transitions are no-ops
+    console.log('💾 Applying task status transition...');
+    const parallel = new ParallelService(parallelApiKey);
+    const outcome = await applyTaskRunStatus(supabase, parallel, run_id, status);
 
-      const parallelResponse = await fetch(`https://api.parallel.ai/v1/tasks/runs/${run_id}`, {
-        headers: {
-          'x-api-key': parallelApiKey,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!parallelResponse.ok) {
-        const errorText = await parallelResponse.text();
-        console.error('Error fetching Parallel results:', errorText);
-        throw new Error(`Failed to fetch results: ${parallelResponse.status}`);
-      }
-
-      const resultData = await parallelResponse.json();
-      console.log('Parallel results:', JSON.stringify(resultData, null, 2));
-
-      // Get session_id from task_runs table
-      const { data: taskData, error: taskError } = await supabase
-        .from('task_runs')
-        .select('session_id')
-        .eq('parallel_run_id', run_id)
-        .single();
-
-      if (taskError || !taskData) {
-        console.error('Error finding task:', taskError);
-        throw new Error('Task not found');
-      }
-
-      // Store results in task_runs table
-      await supabase
-        .from('task_runs')
-        .update({ 
-          result: JSON.stringify(resultData.output),
-          metadata: { completed_at: new Date().toISOString() }
-        })
-        .eq('parallel_run_id', run_id);
-
-      // Format results for chat display
-      const output = resultData.output;
-      let formattedContent = '✅ **Research Complete**\n\n';
-
-      if (output?.summary) {
-        formattedContent += `## Summary\n${output.summary}\n\n`;
-      }
-
-      if (output?.key_facts && Array.isArray(output.key_facts)) {
-        formattedContent += '## Key Facts\n';
-        output.key_facts.forEach((fact: string, index: number) => {
-          formattedContent += `${index + 1}. ${fact}\n`;
-        });
-        formattedContent += '\n';
-      }
-
-      if (output?.sources && Array.isArray(output.sources)) {
-        formattedContent += '## Sources\n';
-        output.sources.forEach((source: string, index: number) => {
-          formattedContent += `${index + 1}. ${source}\n`;
-        });
-        formattedContent += '\n';
-      }
-
-      formattedContent += `*Task ID: ${run_id}*`;
-
-      // Add results message to chat
-      await supabase
-        .from('messages')
-        .insert({
-          session_id: taskData.session_id,
-          role: 'research',
-          content: formattedContent,
-          metadata: { 
-            run_id: run_id, 
-            status: 'completed',
-            results: output
-          }
-        });
-
-      console.log('Research results added to chat');
-    } else if (status === 'failed' || status === 'canceled') {
-      console.log(`Task ${status}, adding failure message`);
-
-      // Get session_id from task_runs table
-      const { data: taskData, error: taskError } = await supabase
-        .from('task_runs')
-        .select('session_id')
-        .eq('parallel_run_id', run_id)
-        .single();
-
-      if (taskError || !taskData) {
-        console.error('Error finding task:', taskError);
-        throw new Error('Task not found');
-      }
-
-      // Add failure message to chat
-      await supabase
-        .from('messages')
-        .insert({
-          session_id: taskData.session_id,
-          role: 'system',
-          content: `❌ **Research ${status.charAt(0).toUpperCase() + status.slice(1)}**\n\nThe research task encountered an issue and could not be completed.\n\n*Task ID: ${run_id}*\n\nPlease try again with a different query or check the Parallel.ai service status.`,
-          metadata: { 
-            run_id: run_id, 
-            status: status,
-            error: true
-          }
-        });
+    if (outcome === 'not_found') {
+      throw new Error('Task not found');
     }
 
-    return new Response(JSON.stringify({ success: true }), {
+    await finishDelivery(supabase, webhookId, startedAt, outcome);
+    console.log('📊 Webhook processed:', { webhookId, run_id, status, outcome });
+
+    return new Response(JSON.stringify({ success: true, outcome }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
+    // Mark the delivery failed so Parallel's retry is processed rather than treated as a duplicate
+    if (supabase && webhookId) {
+      await finishDelivery(supabase, webhookId, startedAt, 'failed', error.message);
+    }
+
     console.error('💥 CRITICAL ERROR in parallel-webhook function:', {
       name: error.name,
       message: error.message,
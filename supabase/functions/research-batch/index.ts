@@ -0,0 +1,239 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { ParallelService } from '../_shared/parallel.ts';
+import { DEFAULT_PROCESSOR } from '../_shared/processors.ts';
+import { researchBriefSchema } from '../_shared/research-brief.ts';
+import {
+  ACTIVE_BATCH_ITEM_STATUSES,
+  DEFAULT_BATCH_CONCURRENCY,
+  ENTITY_PLACEHOLDER,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ENTITIES,
+  entitiesFromRows,
+  hasEntityPlaceholder,
+} from '../_shared/research-batch.ts';
+import { advanceBatch } from '../_shared/batch-runner.ts';
+import { formatZodIssues } from '../_shared/structured-output.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { BudgetExceededError, assertWithinBudget, budgetErrorResponse } from '../_shared/usage-ledger.ts';
+import { loadActiveLeafId } from '../_shared/session-history.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type BatchRequest =
+  | {
+      action: 'create';
+      sessionId: string;
+      name?: string;
+      // Brief template; its objective must contain {{entity}}
+      brief: unknown;
+      entities: string[];
+      concurrency?: number;
+    }
+  | { action: 'cancel'; batchId: string }
+  // Continue a batch that paused because a budget ran out
+  | { action: 'resume'; batchId: string };
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Batches owned by someone else are reported as missing, like sessions
+async function loadOwnedBatch(supabase: SupabaseClient, batchId: string, userId: string) {
+  const { data: batch, error } = await supabase
+    .from('research_batches')
+    .select('id, user_id, status')
+    .eq('id', batchId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!batch || batch.user_id !== userId) {
+    throw new AuthError('Batch not found', 404);
+  }
+  return batch;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
+
+    if (!parallelApiKey) {
+      throw new Error('PARALLEL_API_KEY not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const parallel = new ParallelService(parallelApiKey);
+    const user = await requireUser(req, supabase);
+    const request: BatchRequest = await req.json();
+
+    let body: Record<string, unknown>;
+
+    if (request.action === 'create') {
+      await assertSessionOwner(supabase, request.sessionId, user.id);
+
+      const parsed = researchBriefSchema.safeParse(request.brief);
+      if (!parsed.success) {
+        throw new Error(`Invalid brief template:\n${formatZodIssues(parsed.error)}`);
+      }
+      const brief = parsed.data;
+      if (!hasEntityPlaceholder(brief)) {
+        throw new Error(`The brief's objective must contain ${ENTITY_PLACEHOLDER}`);
+      }
+
+      const entities = entitiesFromRows((request.entities || []).map(entity => [String(entity)]));
+      if (entities.length === 0) {
+        throw new Error('entities must list at least one entity');
+      }
+      if (entities.length > MAX_BATCH_ENTITIES) {
+        throw new Error(`A batch can have at most ${MAX_BATCH_ENTITIES} entities (got ${entities.length})`);
+      }
+
+      // Fail up front rather than creating a batch that pauses straight away
+      await assertWithinBudget(supabase, user.id);
+
+      const concurrency = Math.min(
+        Math.max(Math.round(request.concurrency ?? DEFAULT_BATCH_CONCURRENCY) || 1, 1),
+        MAX_BATCH_CONCURRENCY
+      );
+
+      const { data: batch, error: batchError } = await supabase
+        .from('research_batches')
+        .insert({
+          user_id: user.id,
+          session_id: request.sessionId,
+          name: request.name?.trim() || brief.summary || brief.objective,
+          brief,
+          processor: brief.processor ?? DEFAULT_PROCESSOR,
+          concurrency,
+          // The summary is posted on the branch the batch was started from
+          parent_message_id: await loadActiveLeafId(supabase, request.sessionId),
+        })
+        .select('id')
+        .single();
+
+      if (batchError) throw batchError;
+
+      const { error: itemsError } = await supabase
+        .from('research_batch_items')
+        .insert(entities.map((entity, position) => ({ batch_id: batch.id, position, entity })));
+
+      if (itemsError) {
+        await supabase.from('research_batches').delete().eq('id', batch.id);
+        throw itemsError;
+      }
+
+      console.log('📦 Created research batch:', { batchId: batch.id, entities: entities.length, concurrency });
+
+      await advanceBatch(supabase, parallel, batch.id);
+      body = { batch_id: batch.id, total: entities.length };
+
+    } else if (request.action === 'cancel') {
+      const batch = await loadOwnedBatch(supabase, request.batchId, user.id);
+      const completedAt = new Date().toISOString();
+
+      const { error: cancelError } = await supabase
+        .from('research_batches')
+        .update({ status: 'canceled', completed_at: completedAt })
+        .eq('id', batch.id)
+        .in('status', ['running', 'paused']);
+      if (cancelError) throw cancelError;
+
+      const { error: pendingError } = await supabase
+        .from('research_batch_items')
+        .update({ status: 'canceled', completed_at: completedAt })
+        .eq('batch_id', batch.id)
+        .eq('status', 'pending');
+      if (pendingError) throw pendingError;
+
+      const { data: active, error: activeError } = await supabase
+        .from('research_batch_items')
+        .select('id, run_id')
+        .eq('batch_id', batch.id)
+        .in('status', ACTIVE_BATCH_ITEM_STATUSES);
+      if (activeError) throw activeError;
+
+      // Stop the runs already in flight so they no longer consume Parallel credits
+      for (const item of active || []) {
+        if (!item.run_id) {
+          // Claimed but not launched yet. A launch still in progress leaves its run to finish
+          // in task_runs; finalize_task_run won't reopen the canceled row.
+          const { error: itemError } = await supabase
+            .from('research_batch_items')
+            .update({ status: 'canceled', completed_at: completedAt })
+            .eq('id', item.id)
+            .is('run_id', null)
+            .in('status', ACTIVE_BATCH_ITEM_STATUSES);
+          if (itemError) throw itemError;
+          continue;
+        }
+
+        try {
+          await parallel.cancelTaskRun(item.run_id);
+        } catch (error) {
+          console.warn(`⚠️ Could not cancel run ${item.run_id}:`, error.message);
+        }
+
+        // Same path as research-cancel: a run the webhook finalized meanwhile is left as it is
+        const { error: finalizeError } = await supabase.rpc('finalize_task_run', {
+          p_run_id: item.run_id,
+          p_status: 'canceled',
+        });
+        if (finalizeError) throw finalizeError;
+      }
+
+      console.log(`🛑 Canceled batch ${batch.id} (${active?.length ?? 0} runs stopped)`);
+      body = { batch_id: batch.id, status: 'canceled' };
+
+    } else if (request.action === 'resume') {
+      const batch = await loadOwnedBatch(supabase, request.batchId, user.id);
+      if (batch.status !== 'paused') {
+        throw new Error(`Only paused batches can be resumed (this one is ${batch.status})`);
+      }
+
+      await assertWithinBudget(supabase, user.id);
+
+      const { error: resumeError } = await supabase
+        .from('research_batches')
+        .update({ status: 'running', status_reason: null, reconcile_attempts: 0 })
+        .eq('id', batch.id)
+        .eq('status', 'paused');
+      if (resumeError) throw resumeError;
+
+      console.log(`▶️ Resuming batch ${batch.id}`);
+      await advanceBatch(supabase, parallel, batch.id);
+      body = { batch_id: batch.id, status: 'running' };
+
+    } else {
+      throw new Error('action must be create, cancel or resume');
+    }
+
+    return new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof BudgetExceededError) {
+      return budgetErrorResponse(error, corsHeaders);
+    }
+
+    console.error('💥 Error in research-batch function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      type: error.name,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { ParallelService } from '../_shared/parallel.ts';
+import { TERMINAL_STATUSES, applyTaskRunStatus, normalizeRunStatus } from '../_shared/task-completion.ts';
+import { advanceBatch } from '../_shared/batch-runner.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CancelRequest {
+  runId: string;
+}
+
+async function loadRunStatus(supabase: SupabaseClient, runId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('task_runs')
+    .select('status')
+    .eq('parallel_run_id', runId)
+    .single();
+
+  if (error || !data) throw error ?? new Error(`Task run ${runId} not found`);
+  return data.status;
+}
+
+function statusResponse(runId: string, status: string): Response {
+  return new Response(JSON.stringify({ run_id: runId, status }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
+
+    if (!parallelApiKey) {
+      throw new Error('PARALLEL_API_KEY not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await requireUser(req, supabase);
+    const { runId }: CancelRequest = await req.json();
+
+    if (!runId) {
+      throw new Error('runId is required');
+    }
+
+    console.log('🛑 Cancel requested for run:', runId);
+
+    const { data: taskData, error: taskError } = await supabase
+      .from('task_runs')
+      .select('session_id, status, metadata')
+      .eq('parallel_run_id', runId)
+      .single();
+
+    if (taskError || !taskData) {
+      console.error('❌ Task run not found:', { runId, error: taskError });
+      return new Response(JSON.stringify({ error: 'Task run not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await assertSessionOwner(supabase, taskData.session_id, user.id);
+
+    if (TERMINAL_STATUSES.includes(taskData.status)) {
+      console.log(`⚠️ Run ${runId} already ${taskData.status}, nothing to cancel`);
+      return new Response(JSON.stringify({
+        error: `Research task is already ${taskData.status}`,
+        status: taskData.status
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Stop the upstream run so it no longer consumes Parallel credits
+    const parallel = new ParallelService(parallelApiKey);
+    try {
+      await parallel.cancelTaskRun(runId);
+    } catch (error) {
+      // Parallel refuses to cancel a run that already finished; record how it ended instead
+      const upstream = await parallel.getTaskRun(runId).catch(() => null);
+      const upstreamStatus = upstream ? normalizeRunStatus(upstream.status) : null;
+      if (!upstreamStatus || !TERMINAL_STATUSES.includes(upstreamStatus)) throw error;
+
+      console.log(`⚠️ Run ${runId} finished as ${upstream.status} before it could be canceled`);
+      await applyTaskRunStatus(supabase, parallel, runId, upstream.status);
+      return statusResponse(runId, await loadRunStatus(supabase, runId));
+    }
+
+    // Flip the status and post the cancel message (or free the batch row) together
+    const { data: finalized, error: finalizeError } = await supabase.rpc('finalize_task_run', {
+      p_run_id: runId,
+      p_status: 'canceled',
+      p_message: {
+        role: 'system',
+        content: `⏹️ **Research Canceled**\n\nThe research task was stopped before it finished. No results will be added for it.\n\n*Task ID: ${runId}*`,
+        metadata: {
+          run_id: runId,
+          status: 'canceled'
+        }
+      },
+    });
+
+    if (finalizeError) {
+      console.error('❌ Error finalizing canceled run:', finalizeError);
+      throw finalizeError;
+    }
+
+    // The webhook finished the run first; report how it actually ended
+    if (!finalized) {
+      const status = await loadRunStatus(supabase, runId);
+      console.log(`⚠️ Run ${runId} was already ${status} when the cancel landed`);
+      return statusResponse(runId, status);
+    }
+
+    // A canceled batch row frees its slot for the next row
+    if (taskData.metadata?.batch_id) {
+      await advanceBatch(supabase, parallel, taskData.metadata.batch_id);
+    }
+
+    console.log(`✅ Run ${runId} canceled`);
+
+    return statusResponse(runId, 'canceled');
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
+    console.error('💥 CRITICAL ERROR in research-cancel function:', {
+      name: error.name,
+      message: error.message,
+      stack: error.stack
+    });
+
+    return new Response(JSON.stringify({
+      error: error.message,
+      type: error.name,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { advanceBatch, recoverStalledLaunches } from '../_shared/batch-runner.ts';
+import { ParallelService } from '../_shared/parallel.ts';
+import { ACTIVE_STATUSES, applyTaskRunStatus, normalizeRunStatus } from '../_shared/task-completion.ts';
+import { AuthError, authErrorResponse, requireServiceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Runs younger than this are left to the webhook
+const DEFAULT_MIN_AGE_MINUTES = 10;
+// Consecutive failed checks before a run is failed or a batch is paused (an hour of passes)
+const DEFAULT_MAX_ATTEMPTS = 12;
+const BATCH_SIZE = 50;
+
+// Records a check so the next pass starts with runs and batches that waited longest
+async function markReconciled(
+  supabase: SupabaseClient,
+  table: 'task_runs' | 'research_batches',
+  column: string,
+  value: string,
+  attempts: number
+) {
+  const { error } = await supabase
+    .from(table)
+    .update({ last_reconciled_at: new Date().toISOString(), reconcile_attempts: attempts })
+    .eq(column, value);
+
+  if (error) {
+    console.error(`❌ Error recording reconcile attempt for ${value}:`, error);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
+    const minAgeMinutes = Number(Deno.env.get('RECONCILE_MIN_AGE_MINUTES')) || DEFAULT_MIN_AGE_MINUTES;
+    const maxAttempts = Number(Deno.env.get('RECONCILE_MAX_ATTEMPTS')) || DEFAULT_MAX_ATTEMPTS;
+
+    if (!parallelApiKey) {
+      throw new Error('PARALLEL_API_KEY not configured');
+    }
+
+    // Only the scheduler (pg_cron via pg_net) calls this, with the service role key
+    requireServiceRole(req, supabaseKey);
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const parallel = new ParallelService(parallelApiKey);
+
+    const cutoff = new Date(Date.now() - minAgeMinutes * 60 * 1000).toISOString();
+
+    const { data: staleRuns, error: staleError } = await supabase
+      .from('task_runs')
+      .select('parallel_run_id, status, created_at, reconcile_attempts, metadata')
+      .in('status', ACTIVE_STATUSES)
+      .lt('created_at', cutoff)
+      .not('parallel_run_id', 'is', null)
+      .order('last_reconciled_at', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (staleError) {
+      console.error('❌ Error loading stale task runs:', staleError);
+      throw staleError;
+    }
+
+    console.log(`🔎 Reconciling ${staleRuns?.length || 0} task runs older than ${minAgeMinutes} minutes`);
+
+    const summary = { checked: 0, finalized: 0, updated: 0, unchanged: 0, errors: 0, abandoned: 0, batches: 0 };
+    const batchIds = new Set<string>();
+
+    for (const run of staleRuns || []) {
+      summary.checked++;
+      const runId = run.parallel_run_id as string;
+
+      try {
+        const upstream = await parallel.getTaskRun(runId);
+
+        if (normalizeRunStatus(upstream.status) === run.status) {
+          summary.unchanged++;
+          await markReconciled(supabase, 'task_runs', 'parallel_run_id', runId, 0);
+          continue;
+        }
+
+        const outcome = await applyTaskRunStatus(supabase, parallel, runId, upstream.status);
+
+        if (outcome === 'completed') {
+          summary.finalized++;
+          console.log(`✅ Reconciled ${runId} to ${upstream.status}`);
+          continue;
+        } else if (outcome === 'updated') {
+          summary.updated++;
+        } else {
+          summary.unchanged++;
+        }
+        await markReconciled(supabase, 'task_runs', 'parallel_run_id', runId, 0);
+      } catch (error) {
+        summary.errors++;
+        const attempts = run.reconcile_attempts + 1;
+        console.error(`❌ Failed to reconcile ${runId} (attempt ${attempts} of ${maxAttempts}):`, error.message);
+
+        if (attempts < maxAttempts) {
+          // The next scheduled pass retries this run, after the ones that waited longer
+          await markReconciled(supabase, 'task_runs', 'parallel_run_id', runId, attempts);
+          continue;
+        }
+
+        // Give up so the run stops taking a slot in every pass, and tell the user why
+        const { error: finalizeError } = await supabase.rpc('finalize_task_run', {
+          p_run_id: runId,
+          p_status: 'failed',
+          p_message: {
+            role: 'system',
+            content: `❌ **Research Failed**\n\nThe research task's status could not be checked after ${attempts} attempts, so it has been marked as failed.\n\n*Task ID: ${runId}*`,
+            metadata: { run_id: runId, status: 'failed', error: true },
+          },
+        });
+        if (finalizeError) {
+          console.error(`❌ Error giving up on ${runId}:`, finalizeError);
+          await markReconciled(supabase, 'task_runs', 'parallel_run_id', runId, attempts);
+          continue;
+        }
+
+        summary.abandoned++;
+        console.warn(`🪦 Gave up on ${runId} after ${attempts} failed checks`);
+        if (run.metadata?.batch_id) batchIds.add(run.metadata.batch_id);
+      }
+    }
+
+    // Batches only move when one of their rows finishes, so a lost advance (or a launch that
+    // died after claiming its row) would stall them for good. Advancing is idempotent.
+    (await recoverStalledLaunches(supabase, cutoff)).forEach(batchId => batchIds.add(batchId));
+
+    const { data: runningBatches, error: batchError } = await supabase
+      .from('research_batches')
+      .select('id, reconcile_attempts')
+      .eq('status', 'running')
+      .lt('updated_at', cutoff)
+      .order('last_reconciled_at', { ascending: true, nullsFirst: true })
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (batchError) {
+      console.error('❌ Error loading running batches:', batchError);
+      throw batchError;
+    }
+
+    const batchAttempts = new Map<string, number>(
+      (runningBatches || []).map(batch => [batch.id, batch.reconcile_attempts])
+    );
+    batchAttempts.forEach((_, batchId) => batchIds.add(batchId));
+
+    for (const batchId of batchIds) {
+      try {
+        await advanceBatch(supabase, parallel, batchId);
+        summary.batches++;
+        if (batchAttempts.has(batchId)) {
+          await markReconciled(supabase, 'research_batches', 'id', batchId, 0);
+        }
+      } catch (error) {
+        summary.errors++;
+        const attempts = (batchAttempts.get(batchId) ?? 0) + 1;
+        console.error(`❌ Failed to advance batch ${batchId} (attempt ${attempts} of ${maxAttempts}):`, error.message);
+        await markReconciled(supabase, 'research_batches', 'id', batchId, attempts);
+
+        if (attempts >= maxAttempts) {
+          // Paused batches can be resumed from the batch card once the problem is fixed
+          const { error: pauseError } = await supabase
+            .from('research_batches')
+            .update({ status: 'paused', status_reason: `Stopped after ${attempts} failed attempts to launch more rows: ${error.message}` })
+            .eq('id', batchId)
+            .eq('status', 'running');
+          if (pauseError) {
+            console.error(`❌ Error pausing batch ${batchId}:`, pauseError);
+          } else {
+            summary.abandoned++;
+          }
+        }
+      }
+    }
+
+    console.log('📊 Reconcile summary:', summary);
+
+    return new Response(JSON.stringify(summary), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
+    console.error('💥 CRITICAL ERROR in research-reconcile function:', {
+      name: error.name,
+      message: error.message,
+      stack: error.stack
+    });
+
+    return new Response(JSON.stringify({
+      error: error.message,
+      type: error.name,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { ParallelService } from '../_shared/parallel.ts';
+import { normalizeBasis } from '../_shared/citations.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ResultRequest {
+  runId: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
+
+    if (!parallelApiKey) {
+      throw new Error('PARALLEL_API_KEY not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await requireUser(req, supabase);
+    const { runId }: ResultRequest = await req.json();
+
+    if (!runId) {
+      throw new Error('runId is required');
+    }
+
+    console.log('📥 Result requested:', { runId, userId: user.id });
+
+    const { data: taskData, error: taskError } = await supabase
+      .from('task_runs')
+      .select('session_id, status, result, completed_at')
+      .eq('parallel_run_id', runId)
+      .single();
+
+    if (taskError || !taskData) {
+      console.error('❌ Task run not found:', { runId, error: taskError });
+      return jsonResponse({ error: 'Task run not found' }, 404);
+    }
+
+    await assertSessionOwner(supabase, taskData.session_id, user.id);
+
+    if (taskData.result) {
+      console.log('✅ Serving cached result for run:', runId);
+      return jsonResponse({
+        run_id: runId,
+        status: taskData.status,
+        completed_at: taskData.completed_at,
+        output: JSON.parse(taskData.result),
+        cached: true
+      });
+    }
+
+    if (taskData.status === 'failed' || taskData.status === 'canceled') {
+      return jsonResponse({ error: `Research task ${taskData.status}`, status: taskData.status }, 409);
+    }
+
+    console.log('📡 Fetching result from Parallel API for run:', runId);
+    const parallel = new ParallelService(parallelApiKey);
+    const resultData = await parallel.getTaskResult(runId);
+
+    // Cache for later requests; the status transition itself stays with the webhook and reconciler
+    const { error: cacheError } = await supabase
+      .from('task_runs')
+      .update({
+        result: JSON.stringify(resultData.output),
+        basis: normalizeBasis(resultData.output?.basis)
+      })
+      .eq('parallel_run_id', runId)
+      .is('result', null);
+
+    if (cacheError) {
+      console.error('❌ Error caching result:', cacheError);
+    }
+
+    console.log('✅ Result fetched for run:', runId);
+
+    return jsonResponse({
+      run_id: runId,
+      status: resultData.run?.status ?? taskData.status,
+      completed_at: taskData.completed_at,
+      output: resultData.output,
+      cached: false
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
+    console.error('💥 CRITICAL ERROR in research-result function:', {
+      name: error.name,
+      message: error.message,
+      stack: error.stack
+    });
+
+    return new Response(JSON.stringify({
+      error: error.message,
+      type: error.name,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { buildOutputSchema } from '../_shared/output-schema.ts';
+import type { CreateTaskRunRequest } from '../_shared/parallel.ts';
+import { DEFAULT_PROCESSOR, findProcessor, isProcessorTier } from '../_shared/processors.ts';
+import { researchBriefSchema, type ResearchBrief } from '../_shared/research-brief.ts';
+import { formatZodIssues } from '../_shared/structured-output.ts';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
+import { BudgetExceededError, assertWithinBudget, budgetErrorResponse, recordUsage } from '../_shared/usage-ledger.ts';
+import { loadActiveLeafId } from '../_shared/session-history.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,15 +16,8 @@ const corsHeaders = {
 
 interface ResearchRequest {
   sessionId: string;
-  brief: {
-    objective: string;
-    constraints: string[];
-    target_sources: string[];
-    disallowed_sources: string[];
-    timebox_minutes: number;
-    expected_output_fields: string[];
-    summary: string;
-  };
+  // Untrusted until it passes researchBriefSchema
+  brief: ResearchBrief;
 }
 
 serve(async (req) => {
@@ -34,68 +35,54 @@ serve(async (req) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseKey);
-    const { sessionId, brief }: ResearchRequest = await req.json();
+    const user = await requireUser(req, supabase);
+    const { sessionId, brief: rawBrief }: ResearchRequest = await req.json();
 
     console.log('🔍 Validating session and inputs:', { 
       sessionId, 
-      briefObjective: brief?.objective?.substring(0, 100) + '...' 
+      briefObjective: rawBrief?.objective?.substring(0, 100) + '...' 
     });
 
-    // Verify session exists before proceeding
-    const { data: sessionData, error: sessionError } = await supabase
-      .from('chat_sessions')
-      .select('id, title')
-      .eq('id', sessionId)
-      .single();
+    // Only the session's owner may spend Parallel quota on it
+    await assertSessionOwner(supabase, sessionId, user.id);
+    console.log('✅ Session validated:', { sessionId, userId: user.id });
 
-    if (sessionError || !sessionData) {
-      console.error('❌ Session validation failed:', {
-        sessionId,
-        error: sessionError,
-        data: sessionData
+    // The brief becomes the Parallel request, so only a well-formed one is sent on
+    const parsedBrief = researchBriefSchema.safeParse(rawBrief);
+    if (!parsedBrief.success) {
+      return new Response(JSON.stringify({
+        error: `Invalid research brief:\n${formatZodIssues(parsedBrief.error)}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
-      
-      // Create the session if it doesn't exist
-      console.log('🆕 Creating missing session...');
-      const { data: newSession, error: createError } = await supabase
-        .from('chat_sessions')
-        .insert({
-          id: sessionId,
-          title: 'Research Session',
-          user_id: null // For demo mode
-        })
-        .select()
-        .single();
-        
-      if (createError) {
-        console.error('❌ Failed to create session:', createError);
-        throw new Error(`Failed to create session: ${createError.message}`);
-      }
-      
-      console.log('✅ Created new session:', newSession);
-    } else {
-      console.log('✅ Session validated:', sessionData);
     }
+    const brief: ResearchBrief = parsedBrief.data;
+
+    const launchParentId = await loadActiveLeafId(supabase, sessionId);
+
+    // Derive the output schema from the fields the brief asks for
+    const outputSchema = buildOutputSchema(brief);
+
+    const processor = isProcessorTier(brief.processor) ? brief.processor : DEFAULT_PROCESSOR;
+    const costUsd = findProcessor(processor).costPerRunUsd;
+
+    // Refuse before Parallel is called if the run would take any budget over its limit
+    await assertWithinBudget(supabase, user.id, costUsd);
 
     // Create Parallel Task Run with correct payload structure
-    const parallelRequest = {
+    const parallelRequest: CreateTaskRunRequest = {
       input: brief.objective,
-      processor: 'core', // Use 'core' processor for research tasks
+      processor,
       enable_events: true, // Enable SSE events
       webhook: {
         url: `${supabaseUrl}/functions/v1/parallel-webhook`,
         event_types: ['task_run.status']
       },
-      output_schema: {
-        type: 'object',
-        properties: {
-          company: { type: 'string' },
-          HQ_region: { type: 'string' },
-          EU_risk_drivers: { type: 'array', items: { type: 'string' } },
-          use_cases: { type: 'array', items: { type: 'string' } },
-          current_tools: { type: 'array', items: { type: 'string' } },
-          buyer_roles: { type: 'array', items: { type: 'object' } },
-          sources: { type: 'array', items: { type: 'string' } }
+      task_spec: {
+        output_schema: {
+          type: 'json',
+          json_schema: outputSchema
         }
       }
     };
@@ -175,6 +162,7 @@ serve(async (req) => {
     console.log('🎉 Research task created successfully:', {
       runId,
       sessionId,
+      processor,
       objective: brief.objective,
       response: parallelData
     });
@@ -189,7 +177,9 @@ serve(async (req) => {
         run_id: runId,
         parallel_run_id: runId,
         brief_text: brief.summary,
-        status: 'queued'
+        processor,
+        status: 'queued',
+        metadata: { output_schema: outputSchema }
       });
 
     if (dbError) {
@@ -199,23 +189,45 @@ serve(async (req) => {
     
     console.log('✅ Task run stored in database successfully');
 
+    await recordUsage(supabase, {
+      user_id: user.id,
+      session_id: sessionId,
+      kind: 'research',
+      provider: 'parallel',
+      processor,
+      run_id: runId,
+      cost_usd: costUsd,
+    });
+
     // Add research message to session
     console.log('💬 Adding research started message to chat');
     
-    const { error: messageError } = await supabase
+    const { data: startedMessage, error: messageError } = await supabase
       .from('messages')
       .insert({
         session_id: sessionId,
+        parent_message_id: launchParentId,
         role: 'research',
-        content: `🔍 **Research Started**\n\n**Objective:** ${brief.objective}\n\n**Estimated Time:** ${brief.timebox_minutes} minutes\n\n*Task ID: ${runId}*`,
+        content: `🔍 **Research Started**\n\n**Objective:** ${brief.objective}\n\n**Estimated Time:** ${brief.timebox_minutes} minutes (${processor} processor)\n\n*Task ID: ${runId}*`,
         metadata: { run_id: runId, status: 'started' }
-      });
+      })
+      .select('id')
+      .single();
       
     if (messageError) {
       console.error('❌ Error adding research message:', messageError);
       // Don't throw here, task is already created
     } else {
       console.log('✅ Research started message added to chat');
+
+      // The result or cancellation is posted under this message, on the branch it started from
+      const { error: launchError } = await supabase
+        .from('task_runs')
+        .update({ launch_message_id: startedMessage.id })
+        .eq('parallel_run_id', runId);
+      if (launchError) {
+        console.error('❌ Error linking research message to task run:', launchError);
+      }
     }
 
     return new Response(JSON.stringify({ 
@@ -227,6 +239,13 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+    if (error instanceof BudgetExceededError) {
+      return budgetErrorResponse(error, corsHeaders);
+    }
+
     console.error('💥 CRITICAL ERROR in research-start function:', {
       name: error.name,
       message: error.message,
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { AuthError, assertSessionOwner, authErrorResponse, requireUser } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +15,8 @@ serve(async (req) => {
   }
 
   try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const parallelApiKey = Deno.env.get('PARALLEL_API_KEY')!;
     
     if (!parallelApiKey) {
@@ -28,6 +32,22 @@ serve(async (req) => {
       throw new Error('Run ID not provided in path');
     }
 
+    // EventSource can't set headers, so the token arrives as ?access_token=
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await requireUser(req, supabase, { allowQueryToken: true });
+
+    const { data: taskData, error: taskError } = await supabase
+      .from('task_runs')
+      .select('session_id')
+      .eq('parallel_run_id', runId)
+      .single();
+
+    if (taskError || !taskData) {
+      throw new AuthError('Task run not found', 404);
+    }
+
+    await assertSessionOwner(supabase, taskData.session_id, user.id);
+
     console.log('Streaming events for run ID:', runId);
 
     // Create SSE stream to Parallel API
@@ -82,6 +102,10 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders);
+    }
+
     console.error('Error in research-stream function:', error);
     return new Response(JSON.stringify({ 
       error: error.message 
@@ -0,0 +1,3 @@
+-- Keep Parallel's per-field basis (citations, excerpts, reasoning, confidence) with each task run
+ALTER TABLE public.task_runs
+ADD COLUMN IF NOT EXISTS basis jsonb NOT NULL DEFAULT '[]'::jsonb;
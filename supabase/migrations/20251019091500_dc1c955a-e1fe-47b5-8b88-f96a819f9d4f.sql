@@ -0,0 +1,3 @@
+-- Stream task_runs changes so progress cards and the activity sidebar see status updates (including cancellations)
+ALTER TABLE public.task_runs REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.task_runs;
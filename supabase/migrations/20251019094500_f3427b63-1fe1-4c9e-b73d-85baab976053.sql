@@ -0,0 +1,21 @@
+-- Ledger of Parallel webhook deliveries, keyed on the webhook-id header so retries are recognised
+CREATE TABLE public.webhook_deliveries (
+    id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    webhook_id text NOT NULL UNIQUE,
+    run_id text,
+    event_type text,
+    status text,
+    payload jsonb,
+    signature_valid boolean,
+    outcome text NOT NULL DEFAULT 'processing',
+    error text,
+    received_at timestamptz NOT NULL DEFAULT now(),
+    processed_at timestamptz,
+    duration_ms integer
+);
+
+CREATE INDEX idx_webhook_deliveries_run_id ON public.webhook_deliveries(run_id);
+CREATE INDEX idx_webhook_deliveries_received_at ON public.webhook_deliveries(received_at DESC);
+
+-- Only the webhook function (service role) reads or writes deliveries
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
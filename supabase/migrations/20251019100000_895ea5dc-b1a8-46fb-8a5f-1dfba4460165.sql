@@ -0,0 +1,8 @@
+-- Let users switch between regenerated reply variants on messages in their sessions
+CREATE POLICY "Users can update messages in their sessions" 
+ON public.messages 
+FOR UPDATE 
+USING (EXISTS (
+    SELECT 1 FROM public.chat_sessions 
+    WHERE id = messages.session_id AND user_id = auth.uid()
+));
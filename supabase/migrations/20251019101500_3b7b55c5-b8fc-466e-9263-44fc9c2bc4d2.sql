@@ -0,0 +1,71 @@
+-- Conversation branching: each message follows its parent, and the session remembers
+-- which leaf is active so history is built along that branch only
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS parent_message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE;
+
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS active_leaf_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON public.messages(parent_message_id);
+
+-- Existing conversations are linear: chain each message to the one before it
+UPDATE public.messages m
+SET parent_message_id = ordered.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY session_id ORDER BY created_at, id) AS previous_id
+  FROM public.messages
+) ordered
+WHERE m.id = ordered.id
+  AND m.parent_message_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE public.chat_sessions s
+SET active_leaf_id = latest.id
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, id
+  FROM public.messages
+  ORDER BY session_id, created_at DESC, id DESC
+) latest
+WHERE s.id = latest.session_id;
+
+-- New messages continue the active branch unless they name a parent. Set
+-- metadata.branch_root to start a new root-level branch (editing the first message).
+CREATE OR REPLACE FUNCTION public.set_message_parent()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_message_id IS NULL AND NOT coalesce((NEW.metadata->>'branch_root')::boolean, false) THEN
+    SELECT active_leaf_id INTO NEW.parent_message_id
+    FROM public.chat_sessions
+    WHERE id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.advance_active_leaf()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_sessions
+  SET active_leaf_id = NEW.id
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_parent_trigger
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_message_parent();
+
+CREATE TRIGGER advance_active_leaf_trigger
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_active_leaf();
@@ -0,0 +1,7 @@
+-- Rolling summary of the turns that no longer fit in the model's context window.
+-- history_summary_through is the last message folded in, so the summary can be extended
+-- incrementally and is rebuilt when the active branch no longer contains it.
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS history_summary text,
+ADD COLUMN IF NOT EXISTS history_summary_through uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS history_summary_updated_at timestamptz;
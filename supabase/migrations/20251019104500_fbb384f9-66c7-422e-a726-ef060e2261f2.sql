@@ -0,0 +1,4 @@
+-- Per-session model choice and generation settings read by chat-send and chat-plan
+-- (see supabase/functions/_shared/model-config.ts). Empty means the defaults.
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS model_settings jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,61 @@
+-- Reusable system prompts ("personas"). Rows without a user_id are built-in presets every
+-- user can pick; users manage their own. A session points at one preset; its own
+-- model_settings.system_instruction is applied on top.
+CREATE TABLE public.system_prompt_presets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  instruction text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_system_prompt_presets_user ON public.system_prompt_presets(user_id);
+
+ALTER TABLE public.system_prompt_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in and their own presets"
+ON public.system_prompt_presets
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own presets"
+ON public.system_prompt_presets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own presets"
+ON public.system_prompt_presets
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own presets"
+ON public.system_prompt_presets
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_system_prompt_presets_updated_at
+  BEFORE UPDATE ON public.system_prompt_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS preset_id uuid REFERENCES public.system_prompt_presets(id) ON DELETE SET NULL;
+
+INSERT INTO public.system_prompt_presets (name, description, instruction) VALUES
+(
+  'EU regulatory analyst',
+  'EU law, regulators and compliance obligations',
+  'Act as an EU regulatory analyst. Ground answers in the relevant EU regulations, directives and guidance (name them, with article numbers where possible), distinguish adopted law from proposals, note national implementation differences, and flag deadlines and enforcement risk. Be precise about what is and is not yet settled.'
+),
+(
+  'Competitive intel',
+  'Competitors, positioning, pricing and market moves',
+  'Act as a competitive intelligence analyst. Compare companies on products, pricing, customers, funding and go-to-market, separate confirmed facts from estimates or rumours, and close with the implications and open questions for our own positioning. Prefer tables for side-by-side comparisons.'
+),
+(
+  'Academic literature',
+  'Papers, evidence quality and open questions',
+  'Act as a research librarian for academic literature. Cite papers with authors and year, describe study design and sample size when judging evidence, point out disagreements between studies, and be explicit about gaps in the literature.'
+);
@@ -0,0 +1,8 @@
+-- Parallel processor tier each run was launched on (see supabase/functions/_shared/processors.ts).
+-- Runs from before tiers were selectable all used 'core'.
+ALTER TABLE public.task_runs
+ADD COLUMN IF NOT EXISTS processor text NOT NULL DEFAULT 'core';
+
+ALTER TABLE public.task_runs
+ADD CONSTRAINT task_runs_processor_check
+CHECK (processor IN ('lite', 'base', 'core', 'pro', 'ultra'));
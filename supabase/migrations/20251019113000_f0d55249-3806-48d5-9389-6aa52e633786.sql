@@ -0,0 +1,142 @@
+-- Spend tracking and budgets. Every model reply and Parallel run adds a row to usage_ledger
+-- with its estimated cost; chat-send and research-start refuse new work once a daily or
+-- monthly budget is used up (see supabase/functions/_shared/usage-ledger.ts).
+CREATE TABLE public.teams (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.team_members (
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user ON public.team_members(user_id);
+
+CREATE TABLE public.usage_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id uuid REFERENCES public.chat_sessions(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('llm', 'research')),
+  provider text NOT NULL,
+  model text,
+  prompt_tokens integer,
+  completion_tokens integer,
+  processor text,
+  run_id text,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_usage_ledger_user_created ON public.usage_ledger(user_id, created_at DESC);
+
+-- One row per user or per team; a NULL limit means no limit for that period
+CREATE TABLE public.usage_budgets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid UNIQUE REFERENCES public.teams(id) ON DELETE CASCADE,
+  daily_limit_usd numeric(10, 2) CHECK (daily_limit_usd >= 0),
+  monthly_limit_usd numeric(10, 2) CHECK (monthly_limit_usd >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(user_id, team_id) = 1)
+);
+
+-- Policies on team_members can't query team_members themselves without recursing
+CREATE OR REPLACE FUNCTION public.is_team_member(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Total cost of the given users' ledger entries since a point in time. Runs with the
+-- caller's rights, so signed-in users only ever sum their own rows.
+CREATE OR REPLACE FUNCTION public.usage_spend(p_user_ids uuid[], p_since timestamptz)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(cost_usd), 0)
+  FROM public.usage_ledger
+  WHERE user_id = ANY(p_user_ids) AND created_at >= p_since;
+$$;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams"
+ON public.teams
+FOR SELECT
+USING (auth.uid() = owner_id OR public.is_team_member(id));
+
+CREATE POLICY "Users can create teams they own"
+ON public.teams
+FOR INSERT
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their teams"
+ON public.teams
+FOR UPDATE
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their teams"
+ON public.teams
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Members can view their team's members"
+ON public.team_members
+FOR SELECT
+USING (public.is_team_member(team_id));
+
+CREATE POLICY "Owners can manage team members"
+ON public.team_members
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()));
+
+-- Written only by the edge functions (service role)
+CREATE POLICY "Users can view their own usage"
+ON public.usage_ledger
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own and their teams' budgets"
+ON public.usage_budgets
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_team_member(team_id));
+
+CREATE POLICY "Users can set their own budget"
+ON public.usage_budgets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget"
+ON public.usage_budgets
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Team owners can manage team budgets"
+ON public.usage_budgets
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()));
+
+CREATE TRIGGER update_usage_budgets_updated_at
+  BEFORE UPDATE ON public.usage_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
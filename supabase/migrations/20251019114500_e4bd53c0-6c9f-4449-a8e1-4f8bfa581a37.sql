@@ -0,0 +1,69 @@
+-- Batch research: one brief template fanned out over a list of entities, one Parallel run
+-- per row. Rows are launched and advanced by the edge functions (service role); users can
+-- only read their own batches.
+CREATE TABLE public.research_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Research brief whose objective contains {{entity}}
+  brief jsonb NOT NULL,
+  processor text NOT NULL DEFAULT 'core' CHECK (processor IN ('lite', 'base', 'core', 'pro', 'ultra')),
+  concurrency integer NOT NULL DEFAULT 5 CHECK (concurrency BETWEEN 1 AND 20),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed', 'canceled')),
+  -- Why the batch paused, e.g. a budget ran out
+  status_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX idx_research_batches_session ON public.research_batches(session_id, created_at DESC);
+
+CREATE TABLE public.research_batch_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id uuid NOT NULL REFERENCES public.research_batches(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  entity text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'queued', 'running', 'completed', 'failed', 'canceled')),
+  run_id text,
+  result jsonb,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz,
+  UNIQUE (batch_id, position)
+);
+
+CREATE INDEX idx_research_batch_items_status ON public.research_batch_items(batch_id, status, position);
+CREATE INDEX idx_research_batch_items_run ON public.research_batch_items(run_id);
+
+ALTER TABLE public.research_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.research_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own batches"
+ON public.research_batches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view rows of their own batches"
+ON public.research_batch_items
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.research_batches
+  WHERE research_batches.id = batch_id AND research_batches.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_research_batches_updated_at
+  BEFORE UPDATE ON public.research_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_research_batch_items_updated_at
+  BEFORE UPDATE ON public.research_batch_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER publication supabase_realtime ADD TABLE public.research_batches;
+ALTER publication supabase_realtime ADD TABLE public.research_batch_items;
@@ -0,0 +1,54 @@
+-- Finish a task run in one transaction: flip it out of an active status and either post
+-- its chat message or record the batch row's result. Returns false when another caller
+-- already finalized the run, so the result is written exactly once and a failed write
+-- leaves the run active for the next webhook retry or reconcile pass.
+CREATE OR REPLACE FUNCTION public.finalize_task_run(
+  p_run_id text,
+  p_status text,
+  p_result text DEFAULT NULL,
+  p_basis jsonb DEFAULT NULL,
+  p_metadata jsonb DEFAULT NULL,
+  p_message jsonb DEFAULT NULL,
+  p_output jsonb DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.task_runs%ROWTYPE;
+BEGIN
+  UPDATE public.task_runs
+  SET status = p_status,
+      completed_at = now(),
+      result = coalesce(p_result, result),
+      basis = coalesce(p_basis, basis),
+      metadata = coalesce(p_metadata, metadata)
+  WHERE parallel_run_id = p_run_id
+    AND status IN ('queued', 'running')
+  RETURNING * INTO v_run;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Batch rows are collected into the batch's merged results instead of posting to chat
+  IF v_run.metadata ? 'batch_item_id' THEN
+    UPDATE public.research_batch_items
+    SET status = p_status,
+        result = p_output,
+        error = CASE WHEN p_status = 'completed' THEN NULL ELSE 'Research ' || p_status END,
+        completed_at = now()
+    WHERE id = (v_run.metadata->>'batch_item_id')::uuid
+      AND status IN ('queued', 'running');
+  ELSIF p_message IS NOT NULL THEN
+    INSERT INTO public.messages (session_id, role, content, metadata)
+    VALUES (v_run.session_id, p_message->>'role', p_message->>'content', coalesce(p_message->'metadata', '{}'::jsonb));
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Only the edge functions (service role) finalize runs
+REVOKE EXECUTE ON FUNCTION public.finalize_task_run(text, text, text, jsonb, jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
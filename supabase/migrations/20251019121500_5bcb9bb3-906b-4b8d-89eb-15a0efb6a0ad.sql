@@ -0,0 +1,79 @@
+-- Server-posted messages (research started, results, cancellations, batch summaries) follow
+-- the branch their run was launched from, even if the user has switched branches since
+ALTER TABLE public.task_runs
+ADD COLUMN IF NOT EXISTS launch_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+ALTER TABLE public.research_batches
+ADD COLUMN IF NOT EXISTS parent_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Only move the active leaf along the branch being viewed. A user message always becomes
+-- the leaf (edits deliberately start a new branch); anything else landing on another
+-- branch is kept there without switching the user away from what they are reading.
+CREATE OR REPLACE FUNCTION public.advance_active_leaf()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_sessions
+  SET active_leaf_id = NEW.id
+  WHERE id = NEW.session_id
+    AND (NEW.role = 'user' OR active_leaf_id IS NOT DISTINCT FROM NEW.parent_message_id);
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, but the run's message is posted under its "research started" message
+CREATE OR REPLACE FUNCTION public.finalize_task_run(
+  p_run_id text,
+  p_status text,
+  p_result text DEFAULT NULL,
+  p_basis jsonb DEFAULT NULL,
+  p_metadata jsonb DEFAULT NULL,
+  p_message jsonb DEFAULT NULL,
+  p_output jsonb DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.task_runs%ROWTYPE;
+BEGIN
+  UPDATE public.task_runs
+  SET status = p_status,
+      completed_at = now(),
+      result = coalesce(p_result, result),
+      basis = coalesce(p_basis, basis),
+      metadata = coalesce(p_metadata, metadata)
+  WHERE parallel_run_id = p_run_id
+    AND status IN ('queued', 'running')
+  RETURNING * INTO v_run;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_run.metadata ? 'batch_item_id' THEN
+    UPDATE public.research_batch_items
+    SET status = p_status,
+        result = p_output,
+        error = CASE WHEN p_status = 'completed' THEN NULL ELSE 'Research ' || p_status END,
+        completed_at = now()
+    WHERE id = (v_run.metadata->>'batch_item_id')::uuid
+      AND status IN ('queued', 'running');
+  ELSIF p_message IS NOT NULL THEN
+    INSERT INTO public.messages (session_id, parent_message_id, role, content, metadata)
+    VALUES (
+      v_run.session_id,
+      v_run.launch_message_id,
+      p_message->>'role',
+      p_message->>'content',
+      coalesce(p_message->'metadata', '{}'::jsonb)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
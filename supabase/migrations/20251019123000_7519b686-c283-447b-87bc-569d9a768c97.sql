@@ -0,0 +1,84 @@
+-- Joining a team puts its budget on the member, so membership needs their consent: the
+-- owner invites (accepted_at NULL) and only the invitee can accept. Pending invitations
+-- don't count towards the team's budget or grant access to it.
+ALTER TABLE public.team_members
+ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+
+-- Owners who added themselves keep their membership; everyone else is asked again
+UPDATE public.team_members m
+SET accepted_at = m.created_at
+FROM public.teams t
+WHERE t.id = m.team_id AND t.owner_id = m.user_id;
+
+CREATE OR REPLACE FUNCTION public.is_team_member(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid() AND accepted_at IS NOT NULL
+  );
+$$;
+
+-- Lets an invitee see the name of the team they are invited to
+CREATE OR REPLACE FUNCTION public.is_invited_to_team(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid() AND accepted_at IS NULL
+  );
+$$;
+
+CREATE POLICY "Invitees can view teams they are invited to"
+ON public.teams
+FOR SELECT
+USING (public.is_invited_to_team(id));
+
+DROP POLICY IF EXISTS "Owners can manage team members" ON public.team_members;
+
+CREATE POLICY "Owners can view their team's members and invitations"
+ON public.team_members
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()));
+
+CREATE POLICY "Users can view their invitations"
+ON public.team_members
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners may add themselves outright; anyone else starts out invited
+CREATE POLICY "Owners can invite team members"
+ON public.team_members
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid())
+  AND (accepted_at IS NULL OR auth.uid() = user_id)
+);
+
+CREATE POLICY "Users can accept their invitations"
+ON public.team_members
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Owners can remove team members"
+ON public.team_members
+FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.teams WHERE teams.id = team_id AND teams.owner_id = auth.uid()));
+
+CREATE POLICY "Users can decline invitations and leave teams"
+ON public.team_members
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Accepting is the only change a member can make to their row
+REVOKE UPDATE ON public.team_members FROM anon, authenticated;
+GRANT UPDATE (accepted_at) ON public.team_members TO authenticated;
@@ -0,0 +1,83 @@
+-- A run's result used to be posted directly under its "research started" message. The
+-- progress card (and any chat while the run was going) is added below that message, so the
+-- result became a sibling of the active leaf: advance_active_leaf left it on a hidden branch
+-- and chat-send's history skipped it. Results now go at the end of the launch branch.
+
+-- The active leaf if it is on a branch through p_message_id, otherwise the newest message
+-- below it (replies are always newer than their parent, so that is a leaf). NULL when
+-- p_message_id is NULL, which lets the insert default to the active leaf.
+CREATE OR REPLACE FUNCTION public.latest_leaf_below(p_session_id uuid, p_message_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id, created_at
+    FROM public.messages
+    WHERE id = p_message_id AND session_id = p_session_id
+    UNION ALL
+    SELECT m.id, m.created_at
+    FROM public.messages m
+    JOIN subtree s ON m.parent_message_id = s.id
+  )
+  SELECT coalesce(
+    (SELECT s.id FROM subtree s JOIN public.chat_sessions c ON c.active_leaf_id = s.id WHERE c.id = p_session_id),
+    (SELECT id FROM subtree ORDER BY created_at DESC LIMIT 1)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.latest_leaf_below(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.finalize_task_run(
+  p_run_id text,
+  p_status text,
+  p_result text DEFAULT NULL,
+  p_basis jsonb DEFAULT NULL,
+  p_metadata jsonb DEFAULT NULL,
+  p_message jsonb DEFAULT NULL,
+  p_output jsonb DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.task_runs%ROWTYPE;
+BEGIN
+  UPDATE public.task_runs
+  SET status = p_status,
+      completed_at = now(),
+      result = coalesce(p_result, result),
+      basis = coalesce(p_basis, basis),
+      metadata = coalesce(p_metadata, metadata)
+  WHERE parallel_run_id = p_run_id
+    AND status IN ('queued', 'running')
+  RETURNING * INTO v_run;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_run.metadata ? 'batch_item_id' THEN
+    UPDATE public.research_batch_items
+    SET status = p_status,
+        result = p_output,
+        error = CASE WHEN p_status = 'completed' THEN NULL ELSE 'Research ' || p_status END,
+        completed_at = now()
+    WHERE id = (v_run.metadata->>'batch_item_id')::uuid
+      AND status IN ('queued', 'running');
+  ELSIF p_message IS NOT NULL THEN
+    INSERT INTO public.messages (session_id, parent_message_id, role, content, metadata)
+    VALUES (
+      v_run.session_id,
+      public.latest_leaf_below(v_run.session_id, v_run.launch_message_id),
+      p_message->>'role',
+      p_message->>'content',
+      coalesce(p_message->'metadata', '{}'::jsonb)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- research-reconcile checks the runs and batches it looked at least recently first, so a
+-- few that keep failing can't take every pass. Consecutive failures are counted and the
+-- reconciler gives up on a run or batch after RECONCILE_MAX_ATTEMPTS of them.
+ALTER TABLE public.task_runs
+ADD COLUMN IF NOT EXISTS last_reconciled_at timestamptz,
+ADD COLUMN IF NOT EXISTS reconcile_attempts integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.research_batches
+ADD COLUMN IF NOT EXISTS last_reconciled_at timestamptz,
+ADD COLUMN IF NOT EXISTS reconcile_attempts integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_task_runs_reconcile
+ON public.task_runs(last_reconciled_at NULLS FIRST, created_at)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_research_batches_reconcile
+ON public.research_batches(last_reconciled_at NULLS FIRST, updated_at)
+WHERE status = 'running';